@@ -0,0 +1,65 @@
+import { Readable } from 'stream';
+import axios from 'axios';
+
+// The active validators in a state, in index order. Effective balances are in
+// gwei and always fit in a number.
+export interface activeValidators {
+  indices: Array<number>;
+  effectiveBalances: Array<number>;
+  slashed: Array<boolean>;
+};
+
+// The validators list is too large to parse as a single JSON string on Mainnet
+// so we stream it and only pick the fields we need. Each validator has exactly
+// one of each field and they come in index order.
+const validatorFieldPattern = /"(index|effective_balance)":"(\d+)"|"slashed":(true|false)/g;
+
+// Longer than any field we match so a field split between two chunks is kept
+// for the next one.
+const maxPartialFieldLength = 64;
+
+export const fetchActiveValidators = async function(beaconNodeApiEndpoint: string, stateId: string) {
+  const validatorsUrl = beaconNodeApiEndpoint.concat(`/eth/v1/beacon/states/${stateId}/validators?status=active`);
+  const response = await axios.get(validatorsUrl,
+    { headers: {'accept': 'application/json'}, responseType: 'stream' });
+
+  if (response.status !== 200) {
+    throw new Error(`Unexpected status code from querying the active validators at state ${stateId}. Status code ${response.status}.`);
+  }
+
+  return new Promise<activeValidators>((resolve, reject) => {
+    const validators: activeValidators = { indices: [], effectiveBalances: [], slashed: [] };
+    const stream = response.data as Readable;
+    let buffer = '';
+
+    stream.setEncoding('utf8');
+    stream.on('data', (data: string) => {
+      buffer = buffer.concat(data);
+      let consumed = 0;
+      for (const match of buffer.matchAll(validatorFieldPattern)) {
+        if (match[1] === 'index') {
+          validators.indices.push(parseInt(match[2]));
+        } else if (match[1] === 'effective_balance') {
+          validators.effectiveBalances.push(parseInt(match[2]));
+        } else {
+          validators.slashed.push(match[3] === 'true');
+        }
+        consumed = (match.index ?? 0) + match[0].length;
+      }
+      buffer = buffer.slice(Math.max(consumed, buffer.length - maxPartialFieldLength));
+    });
+    stream.on('error', reject);
+    stream.on('end', () => {
+      if (validators.indices.length !== validators.effectiveBalances.length ||
+        validators.indices.length !== validators.slashed.length) {
+        reject(new Error(`Incomplete active validators response at state ${stateId}.`));
+        return;
+      }
+      resolve(validators);
+    });
+  });
+};
+
+export const sumEffectiveBalances = function(validators: activeValidators) {
+  return validators.effectiveBalances.reduce((total, balance) => total + BigInt(balance), BigInt(0));
+};
@@ -0,0 +1,183 @@
+import axios, { AxiosError } from 'axios';
+
+export interface beaconNodeHealth {
+  healthy: boolean;
+  reason: string;
+  checkedAt: number;
+};
+
+// Something the bot should know about when the beacon node in use changes.
+// previous and next are null when no node was or is healthy.
+export interface beaconNodeSwitch {
+  previous: string | null;
+  next: string | null;
+};
+
+export interface beaconNodePool {
+  endpoints: Array<string>;
+  current: string | null;
+  health: Map<string, beaconNodeHealth>;
+  // Consecutive request failures for each node since it last answered
+  failures: Map<string, number>;
+  onSwitch: (nodeSwitch: beaconNodeSwitch) => void;
+};
+
+const healthCheckTimeout = 5000;
+
+// A single failed request is often transient. A node is only considered down
+// after this many failures in a row or when its health check fails.
+const maxConsecutiveFailures = 3;
+
+// Beacon node endpoints in order of preference from a comma separated list
+export const parseBeaconEndpoints = function(value: string | undefined) {
+  return (value ?? '').split(',').map((endpoint) => endpoint.trim().replace(/\/+$/, '')).filter((endpoint) => endpoint !== '');
+};
+
+// Endpoints often contain API keys. Only show the host when talking about them.
+export const beaconNodeName = function(endpoint: string | null) {
+  if (endpoint === null) {
+    return 'none';
+  }
+  try {
+    return new URL(endpoint).host;
+  } catch (error) {
+    return 'unknown';
+  }
+};
+
+export const createBeaconNodePool = function(endpoints: Array<string>, onSwitch: (nodeSwitch: beaconNodeSwitch) => void): beaconNodePool {
+  return {
+    endpoints: endpoints,
+    current: endpoints.length > 0 ? endpoints[0] : null,
+    health: new Map<string, beaconNodeHealth>(),
+    failures: new Map<string, number>(),
+    onSwitch: onSwitch,
+  };
+};
+
+const switchBeaconNode = function(pool: beaconNodePool, next: string | null) {
+  if (pool.current === next) {
+    return;
+  }
+  const previous = pool.current;
+  pool.current = next;
+  pool.onSwitch({ previous: previous, next: next });
+};
+
+export const checkBeaconNodeHealth = async function(endpoint: string): Promise<beaconNodeHealth> {
+  const checkedAt = Date.now();
+  try {
+    // 200 is ready, 206 is syncing and 503 is not initialized
+    const healthResponse = await axios.get(endpoint.concat('/eth/v1/node/health'),
+      { timeout: healthCheckTimeout, validateStatus: () => true });
+    if (healthResponse.status !== 200) {
+      return { healthy: false, reason: `health status code ${healthResponse.status}`, checkedAt: checkedAt };
+    }
+
+    interface syncingResponse {
+      data: {
+        is_syncing: boolean,
+        is_optimistic?: boolean,
+        el_offline?: boolean
+      }
+    };
+
+    const syncingResponse = await axios.get(endpoint.concat('/eth/v1/node/syncing'),
+      { headers: {'accept': 'application/json'}, timeout: healthCheckTimeout });
+    const syncing = (syncingResponse.data as syncingResponse).data;
+    if (syncing.is_syncing) {
+      return { healthy: false, reason: 'syncing', checkedAt: checkedAt };
+    }
+    if (syncing.el_offline === true) {
+      return { healthy: false, reason: 'execution client offline', checkedAt: checkedAt };
+    }
+    if (syncing.is_optimistic === true) {
+      return { healthy: false, reason: 'optimistic', checkedAt: checkedAt };
+    }
+    return { healthy: true, reason: 'ready', checkedAt: checkedAt };
+  } catch (error) {
+    return { healthy: false, reason: `${error}`, checkedAt: checkedAt };
+  }
+};
+
+// Check all the nodes and move to the preferred healthy one. We go back to a
+// preferred node once it is healthy again.
+export const refreshBeaconNodePool = async function(pool: beaconNodePool) {
+  for (const endpoint of pool.endpoints) {
+    const health = await checkBeaconNodeHealth(endpoint);
+    pool.health.set(endpoint, health);
+    if (health.healthy) {
+      pool.failures.set(endpoint, 0);
+    }
+  }
+
+  const next = pool.endpoints.find((endpoint) => pool.health.get(endpoint)?.healthy) ?? null;
+  switchBeaconNode(pool, next);
+  return pool.current;
+};
+
+// Only errors from the node itself are worth trying another node for. A 4xx
+// response would be the same on every node.
+const isBeaconNodeFailure = function(error: unknown) {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = (error as AxiosError).response?.status;
+  return status === undefined || status >= 500;
+};
+
+const isBeaconNodeDown = function(pool: beaconNodePool, endpoint: string) {
+  return pool.health.get(endpoint)?.healthy === false;
+};
+
+// Record a failed request and tell whether the node should now be considered
+// down.
+const recordBeaconNodeFailure = async function(pool: beaconNodePool, endpoint: string, error: unknown) {
+  const failures = (pool.failures.get(endpoint) ?? 0) + 1;
+  pool.failures.set(endpoint, failures);
+  if (failures >= maxConsecutiveFailures) {
+    pool.health.set(endpoint, { healthy: false, reason: `${failures} failed requests in a row, last one ${error}`, checkedAt: Date.now() });
+    return;
+  }
+  const health = await checkBeaconNodeHealth(endpoint);
+  if (!health.healthy) {
+    pool.health.set(endpoint, health);
+  }
+};
+
+// Run a request on the current node and fall back on the other nodes when it
+// fails. We only move away from the current node once it is considered down
+// and the pool is only down when every node is.
+export const beaconNodeRequest = async function<T>(pool: beaconNodePool, request: (endpoint: string) => Promise<T>): Promise<T> {
+  const candidates = [
+    ...(pool.current !== null ? [pool.current] : []),
+    ...pool.endpoints.filter((endpoint) => endpoint !== pool.current),
+  ];
+  if (candidates.length === 0) {
+    throw new Error('There is no beacon node configured.');
+  }
+
+  let lastError: unknown = null;
+  for (const endpoint of candidates) {
+    try {
+      const result = await request(endpoint);
+      pool.failures.set(endpoint, 0);
+      if (pool.current === null || isBeaconNodeDown(pool, pool.current)) {
+        switchBeaconNode(pool, endpoint);
+      }
+      return result;
+    } catch (error) {
+      if (!isBeaconNodeFailure(error)) {
+        throw error;
+      }
+      console.log(`Beacon node ${beaconNodeName(endpoint)} failed. ${error}`);
+      await recordBeaconNodeFailure(pool, endpoint, error);
+      lastError = error;
+    }
+  }
+
+  if (pool.endpoints.every((endpoint) => isBeaconNodeDown(pool, endpoint))) {
+    switchBeaconNode(pool, null);
+  }
+  throw lastError;
+};
@@ -0,0 +1,46 @@
+import { Database } from 'sqlite3';
+import { DateTime } from 'luxon';
+
+// Small key/value store for bot state that needs to survive restarts. Values
+// are stored as JSON.
+export const initBotStateTable = function(db: Database) {
+  return new Promise<void>(async (resolve, reject) => {
+    db.run(`CREATE TABLE IF NOT EXISTS bot_state (key TEXT PRIMARY KEY UNIQUE NOT NULL, value TEXT NOT NULL, updatedAt INTEGER NOT NULL);`, (error: Error | null) => {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      resolve();
+    });
+  });
+};
+
+export const getBotState = function<T>(db: Database, key: string) {
+  return new Promise<T | null>(async (resolve, reject) => {
+    db.get(`SELECT value from bot_state WHERE key = ?;`, key, (error: Error | null, row: any ) => {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      if (row === undefined) {
+        resolve(null);
+      } else {
+        resolve(JSON.parse(row.value) as T);
+      }
+    });
+  });
+};
+
+export const storeBotState = function<T>(db: Database, key: string, value: T) {
+  return new Promise<void>(async (resolve, reject) => {
+    const updatedAt = Math.floor(DateTime.utc().toMillis() / 1000);
+    db.run(`INSERT INTO bot_state(key, value, updatedAt) VALUES(?, ?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value, updatedAt = excluded.updatedAt;`,
+      key, JSON.stringify(value), updatedAt, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+        resolve();
+      });
+  });
+};
@@ -0,0 +1,119 @@
+export const SLOTS_PER_EPOCH = 32;
+
+export interface chainReorg {
+  slot: number;
+  depth: number;
+};
+
+export interface epochChainHealth {
+  epoch: number;
+  proposedSlots: number;
+  missedSlots: Array<number>;
+  reorgs: Array<chainReorg>;
+};
+
+export interface chainHealthTracker {
+  epochs: Map<number, epochChainHealth>;
+  lastSlot: number | null;
+  maxEpochs: number;
+};
+
+export interface chainHealthSummary {
+  firstEpoch: number;
+  lastEpoch: number;
+  epochCount: number;
+  observedSlots: number;
+  missedSlots: Array<number>;
+  missedRate: number;
+  reorgs: Array<chainReorg>;
+  deepestReorg: chainReorg | null;
+};
+
+// A gap this large means we were not receiving events, not that the slots were
+// missed.
+const maxSlotGap = 2 * SLOTS_PER_EPOCH;
+
+// About a day of epochs by default
+export const createChainHealthTracker = function(maxEpochs: number = 225): chainHealthTracker {
+  return {
+    epochs: new Map<number, epochChainHealth>(),
+    lastSlot: null,
+    maxEpochs: maxEpochs,
+  };
+};
+
+const getEpochChainHealth = function(tracker: chainHealthTracker, epoch: number) {
+  let epochHealth = tracker.epochs.get(epoch);
+  if (epochHealth === undefined) {
+    epochHealth = { epoch: epoch, proposedSlots: 0, missedSlots: [], reorgs: [] };
+    tracker.epochs.set(epoch, epochHealth);
+
+    const oldestEpoch = epoch - tracker.maxEpochs;
+    Array.from(tracker.epochs.keys()).filter((trackedEpoch) => trackedEpoch <= oldestEpoch).forEach((trackedEpoch) => {
+      tracker.epochs.delete(trackedEpoch);
+    });
+  }
+  return epochHealth;
+};
+
+// Forget the last slot when the event stream reconnects so the time we were
+// disconnected is not counted as missed slots.
+export const resetChainHealthHead = function(tracker: chainHealthTracker) {
+  tracker.lastSlot = null;
+};
+
+// Record a new head and return the slots missed since the previous head. A
+// head at or before the last slot comes from a reorg and is ignored.
+export const recordHeadSlot = function(tracker: chainHealthTracker, slot: number) {
+  if (tracker.lastSlot !== null && slot <= tracker.lastSlot) {
+    return [];
+  }
+
+  const missedSlots: Array<number> = [];
+  if (tracker.lastSlot !== null && slot - tracker.lastSlot <= maxSlotGap) {
+    for (let missedSlot = tracker.lastSlot + 1; missedSlot < slot; missedSlot++) {
+      getEpochChainHealth(tracker, Math.floor(missedSlot / SLOTS_PER_EPOCH)).missedSlots.push(missedSlot);
+      missedSlots.push(missedSlot);
+    }
+  }
+
+  getEpochChainHealth(tracker, Math.floor(slot / SLOTS_PER_EPOCH)).proposedSlots += 1;
+  tracker.lastSlot = slot;
+  return missedSlots;
+};
+
+export const recordChainReorg = function(tracker: chainHealthTracker, reorg: chainReorg) {
+  getEpochChainHealth(tracker, Math.floor(reorg.slot / SLOTS_PER_EPOCH)).reorgs.push(reorg);
+};
+
+export const getEpochMissedRate = function(epochHealth: epochChainHealth) {
+  const observedSlots = epochHealth.proposedSlots + epochHealth.missedSlots.length;
+  return observedSlots > 0 ? epochHealth.missedSlots.length / observedSlots : 0;
+};
+
+// Summarize the last finished epochs. The current epoch is left out since it
+// is not complete yet.
+export const summarizeChainHealth = function(tracker: chainHealthTracker, currentEpoch: number, epochCount: number): chainHealthSummary | null {
+  const epochs = Array.from(tracker.epochs.values())
+    .filter((epochHealth) => epochHealth.epoch < currentEpoch && epochHealth.epoch >= currentEpoch - epochCount)
+    .sort((a, b) => a.epoch - b.epoch);
+  if (epochs.length === 0) {
+    return null;
+  }
+
+  const missedSlots = epochs.flatMap((epochHealth) => epochHealth.missedSlots);
+  const reorgs = epochs.flatMap((epochHealth) => epochHealth.reorgs);
+  const observedSlots = epochs.reduce((total, epochHealth) => total + epochHealth.proposedSlots + epochHealth.missedSlots.length, 0);
+  const deepestReorg = reorgs.reduce<chainReorg | null>((deepest, reorg) => (deepest === null || reorg.depth > deepest.depth) ? reorg : deepest, null);
+
+  return {
+    firstEpoch: epochs[0].epoch,
+    lastEpoch: epochs[epochs.length - 1].epoch,
+    epochCount: epochs.length,
+    observedSlots: observedSlots,
+    missedSlots: missedSlots,
+    missedRate: observedSlots > 0 ? missedSlots.length / observedSlots : 0,
+    reorgs: reorgs,
+    deepestReorg: deepestReorg,
+  };
+};
@@ -0,0 +1,343 @@
+import { ethers } from "ethers";
+import { Database, RunResult } from 'sqlite3';
+import { DateTime } from 'luxon';
+import { Mutex } from 'async-mutex';
+
+import { networkDefinition, cheapDepositNetworkDefinition } from './networks';
+import { maxTransactionCost, validatorDepositCost } from './constants';
+import { CHEAP_DEPOSIT_TRANSACTION_TABLE, ledgerEntry, storeLedgerTransaction, confirmLedgerTransaction } from './ledger';
+
+const minRelativeCheapDepositCount = 5;
+
+const depositProxyContractAbi = [
+  "function balanceOf(address,uint256) view returns (uint256)",
+  "function safeTransferFrom(address,address,uint256,uint256,bytes)",
+];
+
+export interface cheapDepositConfig {
+  network: networkDefinition;
+  cheapDeposit: cheapDepositNetworkDefinition;
+  provider: ethers.Provider;
+  wallet: ethers.Wallet;
+  transactionMutex: Mutex;
+  existingUserRequest: Map<string, boolean>;
+  existingWalletRequest: Map<string, boolean>;
+  buttonCustomId: string;
+  modalCustomId: string;
+};
+
+export interface lastCheapDepositRequest {
+  walletAddress: string,
+  lastRequested: number;
+  grants: number;
+};
+
+export type cheapDepositAuditAction = 'reset' | 'unlink' | 'grant';
+
+export interface cheapDepositAuditEntry {
+  network: string;
+  userId: string;
+  moderatorId: string;
+  action: cheapDepositAuditAction;
+  count?: number;
+  reason: string;
+};
+
+export const createCheapDepositConfig = function(network: networkDefinition, provider: ethers.Provider, transactionMutex: Mutex): cheapDepositConfig {
+  return {
+    network: network,
+    cheapDeposit: network.cheapDeposit as cheapDepositNetworkDefinition,
+    provider: provider,
+    wallet: new ethers.Wallet(process.env.FAUCET_PRIVATE_KEY as string, provider),
+    transactionMutex: transactionMutex,
+    existingUserRequest: new Map<string, boolean>(),
+    existingWalletRequest: new Map<string, boolean>(),
+    buttonCustomId: `sendSignatureForCheapDeposits${network.name}`,
+    modalCustomId: `ownerCheapDeposits${network.name}Verify`,
+  };
+};
+
+export const initCheapDepositTable = function(db: Database, config: cheapDepositConfig) {
+  return new Promise<void>(async (resolve, reject) => {
+    const tableName = config.cheapDeposit.requestTable;
+    db.serialize(() => {
+      db.run(`CREATE TABLE IF NOT EXISTS ${tableName} (walletAddress TEXT UNIQUE NOT NULL, userId TEXT UNIQUE NOT NULL, lastRequested INTEGER NOT NULL);`, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+      });
+
+      db.run(`CREATE UNIQUE INDEX IF NOT EXISTS ${tableName}_walletAddress on ${tableName} ( walletAddress );`, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+      });
+
+      db.run(`CREATE UNIQUE INDEX IF NOT EXISTS ${tableName}_userId on ${tableName} ( userId );`, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+        resolve();
+      });
+    });
+  });
+};
+
+// Grants are extra requests a moderator allowed for a user during the cooldown.
+export const initCheapDepositAdminTables = function(db: Database) {
+  return new Promise<void>(async (resolve, reject) => {
+    db.serialize(() => {
+      db.run(`CREATE TABLE IF NOT EXISTS cheap_deposit_grant (network TEXT NOT NULL, userId TEXT NOT NULL, remaining INTEGER NOT NULL, PRIMARY KEY (network, userId));`, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+      });
+
+      db.run(`CREATE TABLE IF NOT EXISTS cheap_deposit_audit (id INTEGER PRIMARY KEY AUTOINCREMENT, network TEXT NOT NULL, userId TEXT NOT NULL, moderatorId TEXT NOT NULL, action TEXT NOT NULL, count INTEGER, reason TEXT NOT NULL, createdAt INTEGER NOT NULL);`, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+      });
+
+      db.run(`CREATE INDEX IF NOT EXISTS cheap_deposit_audit_userId on cheap_deposit_audit ( userId );`, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+        resolve();
+      });
+    });
+  });
+};
+
+export const getLastCheapDepositRequest = function(db: Database, config: cheapDepositConfig, userId: string) {
+  return new Promise<lastCheapDepositRequest | null>(async (resolve, reject) => {
+    const tableName = config.cheapDeposit.requestTable;
+    db.get(`SELECT walletAddress, lastRequested, ` +
+      `COALESCE((SELECT remaining from cheap_deposit_grant WHERE network = ? and userId = ?), 0) AS grants ` +
+      `from ${tableName} WHERE userId = ?;`, config.network.id, userId, userId, (error: Error | null, row: any ) => {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      if (row === undefined) {
+        resolve(null);
+      } else {
+        const value = row as lastCheapDepositRequest;
+        resolve(value);
+      }
+    });
+  });
+};
+
+export const isCheapDepositWalletAlreadyUsed = function(db: Database, config: cheapDepositConfig, walletAddress: string, userId: string) {
+  return new Promise<boolean>(async (resolve, reject) => {
+    const tableName = config.cheapDeposit.requestTable;
+    db.get(`SELECT walletAddress from ${tableName} WHERE walletAddress = ? and userId != ?;`, walletAddress, userId, (error: Error | null, row: any ) => {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      if (row === undefined) {
+        resolve(false);
+      } else {
+        resolve(true);
+      }
+    });
+  });
+};
+
+export const storeCheapDeposit = function(db: Database, config: cheapDepositConfig, walletAddress: string, userId: string) {
+  return new Promise<void>(async (resolve, reject) => {
+    const tableName = config.cheapDeposit.requestTable;
+    db.serialize(() => {
+      let doInsert = true;
+      db.get(`SELECT walletAddress, lastRequested from ${tableName} WHERE userId = ?;`, userId, (error: Error | null, row: any ) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+        if (row !== undefined) {
+          doInsert = false;
+
+          // A request during the cooldown can only come from a moderator grant
+          const previous = row as lastCheapDepositRequest;
+          const dtRequestAvailable = DateTime.fromMillis(previous.lastRequested * 1000).plus(config.cheapDeposit.delay);
+          if (DateTime.utc() < dtRequestAvailable) {
+            db.run(`UPDATE cheap_deposit_grant SET remaining = remaining - 1 WHERE network = ? and userId = ? and remaining > 0;`, config.network.id, userId, (error: Error | null) => {
+              if (error !== null) {
+                console.log(`Unable to use cheap deposit grant for ${userId} on ${config.network.name}. ${error}`);
+              }
+            });
+          }
+        }
+
+        const lastRequested = Math.floor(DateTime.utc().toMillis() / 1000);
+        if (doInsert) {
+          db.run(`INSERT INTO ${tableName}(walletAddress, userId, lastRequested) VALUES(?, ?, ?);`, walletAddress, userId, lastRequested, (error: Error | null) => {
+            if (error !== null) {
+              reject(error);
+              return;
+            }
+            resolve();
+          });
+        } else {
+          db.run(`UPDATE ${tableName} SET walletAddress = ?, lastRequested = ? WHERE userId = ?;`, walletAddress, lastRequested, userId, (error: Error | null) => {
+            if (error !== null) {
+              reject(error);
+              return;
+            }
+            resolve();
+          });
+        }
+      });
+    });
+  });
+};
+
+// Clear the cooldown for a user. Unlinking the wallet also frees that wallet
+// address for another Discord user.
+export const resetCheapDeposit = function(db: Database, config: cheapDepositConfig, userId: string, unlinkWallet: boolean) {
+  return new Promise<boolean>(async (resolve, reject) => {
+    const tableName = config.cheapDeposit.requestTable;
+    const callback = function (this: RunResult, error: Error | null) {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      resolve(this.changes > 0);
+    };
+    if (unlinkWallet) {
+      db.run(`DELETE FROM ${tableName} WHERE userId = ?;`, userId, callback);
+    } else {
+      db.run(`UPDATE ${tableName} SET lastRequested = 0 WHERE userId = ?;`, userId, callback);
+    }
+  });
+};
+
+export const grantCheapDeposits = function(db: Database, config: cheapDepositConfig, userId: string, count: number) {
+  return new Promise<void>(async (resolve, reject) => {
+    db.run(`INSERT INTO cheap_deposit_grant(network, userId, remaining) VALUES(?, ?, ?) ON CONFLICT(network, userId) DO UPDATE SET remaining = excluded.remaining;`,
+      config.network.id, userId, count, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+        resolve();
+      });
+  });
+};
+
+export const storeCheapDepositAudit = function(db: Database, entry: cheapDepositAuditEntry) {
+  return new Promise<void>(async (resolve, reject) => {
+    const createdAt = Math.floor(DateTime.utc().toMillis() / 1000);
+    db.run(`INSERT INTO cheap_deposit_audit(network, userId, moderatorId, action, count, reason, createdAt) VALUES(?, ?, ?, ?, ?, ?, ?);`,
+      entry.network, entry.userId, entry.moderatorId, entry.action, entry.count ?? null, entry.reason, createdAt, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+        resolve();
+      });
+  });
+};
+
+// Make sure the proxy contract, the user tokens and the user wallet are all
+// ready for the configured number of cheap deposits.
+export const provisionCheapDeposits = async function(db: Database, config: cheapDepositConfig, userId: string,
+  walletAddress: string, progress: (message: string) => Promise<unknown>) {
+
+  const { network, cheapDeposit, provider, wallet, transactionMutex } = config;
+  const depositCount = BigInt(cheapDeposit.depositCount);
+
+  const sendAndRecord = async function(entry: ledgerEntry, send: () => Promise<ethers.TransactionResponse>) {
+    await transactionMutex.runExclusive(async () => {
+      const transaction = await send();
+      await storeLedgerTransaction(db, CHEAP_DEPOSIT_TRANSACTION_TABLE, entry, transaction);
+      await confirmLedgerTransaction(db, CHEAP_DEPOSIT_TRANSACTION_TABLE, transaction);
+    });
+  };
+
+  // Top up the proxy contract
+  await progress(`Ensuring there is enough funds on our contract...`);
+
+  const targetMultiplier = BigInt(minRelativeCheapDepositCount) * depositCount;
+
+  const targetBalance = (validatorDepositCost * targetMultiplier) + (maxTransactionCost * targetMultiplier);
+  const currentContractBalance = await provider.getBalance(cheapDeposit.proxyContract);
+
+  if (targetBalance > currentContractBalance) {
+    const sendingAmount = targetBalance - currentContractBalance;
+
+    console.log(`Refilling ${config.network.name} proxy contract. Our target: ${ethers.formatEther(targetBalance)}, ` +
+      `current balance: ${ethers.formatEther(currentContractBalance)}, ` +
+      `sending amount: ${ethers.formatEther(sendingAmount)}`);
+
+    await sendAndRecord({
+      userId: userId,
+      walletAddress: cheapDeposit.proxyContract,
+      network: network.name,
+      amount: sendingAmount,
+      kind: 'contract_refill',
+    }, () => wallet.sendTransaction({
+      to: cheapDeposit.proxyContract,
+      value: sendingAmount
+    }));
+  }
+
+  // Send tokens to user
+  await progress(`Whitelisting the wallet address for ${cheapDeposit.depositCount} cheap deposits...`);
+
+  const depositProxyContract = new ethers.Contract(cheapDeposit.proxyContract, depositProxyContractAbi, wallet);
+  const targetTokenBalance = depositCount;
+  const currentTokenBalance = await depositProxyContract.balanceOf(walletAddress, cheapDeposit.tokenId) as bigint;
+  if (currentTokenBalance < targetTokenBalance) {
+    const sendingAmount = targetTokenBalance - currentTokenBalance;
+
+    console.log(`Sending cheap deposits tokens to user (${walletAddress}). Our target: ${targetTokenBalance}, ` +
+      `current balance: ${currentTokenBalance}, ` +
+      `sending amount: ${sendingAmount}`);
+
+    await sendAndRecord({
+      userId: userId,
+      walletAddress: walletAddress,
+      network: network.name,
+      amount: sendingAmount,
+      kind: 'token_transfer',
+    }, () => depositProxyContract.safeTransferFrom(
+      wallet.address, walletAddress, cheapDeposit.tokenId, sendingAmount, Buffer.from('')));
+  }
+
+  // Top up user wallet
+  await progress(`Ensuring you have enough funds in that wallet for the ${cheapDeposit.depositCount} cheap deposits...`);
+
+  const targetWalletBalance = (cheapDeposit.depositCost * depositCount) + (maxTransactionCost * depositCount);
+  const currentWalletBalance = await provider.getBalance(walletAddress);
+
+  if (targetWalletBalance > currentWalletBalance) {
+    const sendingAmount = targetWalletBalance - currentWalletBalance;
+
+    console.log(`Filling user wallet (${walletAddress}). Our target: ${ethers.formatEther(targetWalletBalance)}, ` +
+      `current balance: ${ethers.formatEther(currentWalletBalance)}, ` +
+      `sending amount: ${ethers.formatEther(sendingAmount)}`);
+
+    await sendAndRecord({
+      userId: userId,
+      walletAddress: walletAddress,
+      network: network.name,
+      amount: sendingAmount,
+      kind: 'wallet_top_up',
+    }, () => wallet.sendTransaction({
+      to: walletAddress,
+      value: sendingAmount
+    }));
+  } else {
+    console.log(`User wallet (${walletAddress}) is already funded. Our target: ${ethers.formatEther(targetWalletBalance)}, ` +
+      `current balance: ${ethers.formatEther(currentWalletBalance)}`);
+  }
+};
@@ -0,0 +1,4 @@
+import { ethers } from "ethers";
+
+export const maxTransactionCost = ethers.parseUnits("0.0001", "ether");
+export const validatorDepositCost = ethers.parseUnits("32", "ether");
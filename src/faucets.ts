@@ -0,0 +1,70 @@
+import { readFileSync, existsSync } from 'fs';
+import { Duration, DurationLikeObject } from 'luxon';
+import { ethers } from "ethers";
+
+export interface faucetDefinition {
+  network: string;
+  currency: string;
+  amount: string;
+  rateLimit: DurationLikeObject;
+  explorerTxRoot: string;
+  rpcEndpointEnv: string;
+  needsVerification: boolean;
+  channel?: string;
+  enoughReason?: string;
+  requestTable?: string;
+};
+
+const defaultEnoughReason = 'It should be plenty already for a few transactions';
+
+export const faucetConfigPath = function() {
+  return process.env.FAUCET_CONFIG_PATH || 'faucets.json';
+};
+
+export const faucetCommandName = (faucet: faucetDefinition) => `request-${faucet.network.toLowerCase()}-eth`;
+export const faucetRequestTable = (faucet: faucetDefinition) => faucet.requestTable ?? `request_${faucet.network.toLowerCase()}`;
+export const faucetEnoughReason = (faucet: faucetDefinition) => faucet.enoughReason ?? defaultEnoughReason;
+export const faucetRateLimit = (faucet: faucetDefinition) => Duration.fromObject(faucet.rateLimit);
+export const faucetRequestAmount = (faucet: faucetDefinition) => ethers.parseUnits(faucet.amount, "ether");
+
+// Load the faucet networks from the JSON config file. A missing file means no
+// faucet is configured.
+export const loadFaucetDefinitions = function(path: string = faucetConfigPath()): Array<faucetDefinition> {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  const content = JSON.parse(readFileSync(path, 'utf-8'));
+  if (!Array.isArray(content)) {
+    throw new Error(`Faucet config ${path} should contain an array of faucet definitions.`);
+  }
+
+  const requiredFields: Array<keyof faucetDefinition> = ['network', 'currency', 'amount', 'rateLimit', 'explorerTxRoot', 'rpcEndpointEnv', 'needsVerification'];
+  const faucets = (content as Array<Partial<faucetDefinition>>).map((definition, index) => {
+    const missingFields = requiredFields.filter((field) => definition[field] === undefined);
+    if (missingFields.length > 0) {
+      throw new Error(`Faucet definition ${index} in ${path} is missing ${missingFields.join(', ')}.`);
+    }
+    return definition as faucetDefinition;
+  });
+
+  faucets.forEach((faucet, index) => {
+    if (!/^[A-Za-z0-9]+$/.test(faucet.network)) {
+      throw new Error(`Faucet definition ${index} in ${path} has an invalid network name (${faucet.network}).`);
+    }
+    // The request table name goes straight into SQL queries
+    if (faucet.requestTable !== undefined && !/^[A-Za-z0-9_]+$/.test(faucet.requestTable)) {
+      throw new Error(`Faucet definition ${index} in ${path} has an invalid request table name (${faucet.requestTable}).`);
+    }
+    if (!faucetRateLimit(faucet).isValid) {
+      throw new Error(`Faucet definition ${index} in ${path} has an invalid rate limit.`);
+    }
+    try {
+      faucetRequestAmount(faucet);
+    } catch (error) {
+      throw new Error(`Faucet definition ${index} in ${path} has an invalid amount (${faucet.amount}). ${error}`);
+    }
+  });
+
+  return faucets;
+};
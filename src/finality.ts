@@ -0,0 +1,95 @@
+import axios from 'axios';
+
+import { SLOTS_PER_EPOCH } from './chain-health';
+
+export interface finalityStatus {
+  headEpoch: number;
+  finalizedEpoch: number;
+  justifiedEpoch: number;
+};
+
+// nonFinalitySince is when finality last advanced before we alerted, in
+// milliseconds. It is only set while alerting.
+export interface finalityTracker {
+  finalizedEpoch: number | null;
+  lastFinalizedAt: number | null;
+  alerting: boolean;
+  nonFinalitySince: number | null;
+};
+
+export type finalityChange =
+  { kind: 'lost', gap: number, finalizedEpoch: number, headEpoch: number } |
+  { kind: 'resumed', gap: number, finalizedEpoch: number, previousFinalizedEpoch: number | null, duration: number | null };
+
+export const createFinalityTracker = function(): finalityTracker {
+  return {
+    finalizedEpoch: null,
+    lastFinalizedAt: null,
+    alerting: false,
+    nonFinalitySince: null,
+  };
+};
+
+export const fetchHeadSlot = async function(beaconNodeApiEndpoint: string) {
+  interface headerResponse {
+    data: {
+      header: {
+        message: { slot: string }
+      }
+    }
+  };
+
+  const headerResponse = await axios.get(beaconNodeApiEndpoint.concat('/eth/v1/beacon/headers/head'),
+    { headers: {'accept': 'application/json'} });
+  return parseInt((headerResponse.data as headerResponse).data.header.message.slot);
+};
+
+export const fetchFinalityStatus = async function(beaconNodeApiEndpoint: string): Promise<finalityStatus> {
+  interface finalityCheckpointsResponse {
+    data: {
+      finalized: { epoch: string },
+      current_justified: { epoch: string }
+    }
+  };
+
+  const checkpointsResponse = await axios.get(beaconNodeApiEndpoint.concat('/eth/v1/beacon/states/head/finality_checkpoints'),
+    { headers: {'accept': 'application/json'} });
+  const headSlot = await fetchHeadSlot(beaconNodeApiEndpoint);
+
+  const checkpoints = (checkpointsResponse.data as finalityCheckpointsResponse).data;
+  return {
+    headEpoch: Math.floor(headSlot / SLOTS_PER_EPOCH),
+    finalizedEpoch: parseInt(checkpoints.finalized.epoch),
+    justifiedEpoch: parseInt(checkpoints.current_justified.epoch),
+  };
+};
+
+// Update the tracker with the latest finalized epoch and return what changed.
+// Finality is considered lost once the head is more than maxEpochGap epochs
+// ahead of the finalized epoch.
+export const updateFinality = function(tracker: finalityTracker, headEpoch: number | null, finalizedEpoch: number, maxEpochGap: number): finalityChange | null {
+  const now = Date.now();
+  const previousFinalizedEpoch = tracker.finalizedEpoch;
+  if (previousFinalizedEpoch === null || finalizedEpoch > previousFinalizedEpoch) {
+    tracker.finalizedEpoch = finalizedEpoch;
+    tracker.lastFinalizedAt = now;
+  }
+
+  if (headEpoch === null) {
+    return null;
+  }
+
+  const gap = headEpoch - (tracker.finalizedEpoch as number);
+  if (gap > maxEpochGap && !tracker.alerting) {
+    tracker.alerting = true;
+    tracker.nonFinalitySince = previousFinalizedEpoch === finalizedEpoch ? tracker.lastFinalizedAt : now;
+    return { kind: 'lost', gap: gap, finalizedEpoch: tracker.finalizedEpoch as number, headEpoch: headEpoch };
+  } else if (gap <= maxEpochGap && tracker.alerting) {
+    const duration = tracker.nonFinalitySince !== null ? now - tracker.nonFinalitySince : null;
+    tracker.alerting = false;
+    tracker.nonFinalitySince = null;
+    return { kind: 'resumed', gap: gap, finalizedEpoch: tracker.finalizedEpoch as number, previousFinalizedEpoch: previousFinalizedEpoch, duration: duration };
+  }
+
+  return null;
+};
@@ -5,7 +5,8 @@ import {
   Client, GatewayIntentBits, userMention, channelMention,
   GuildMemberRoleManager, TextChannel, ModalBuilder, TextInputBuilder,
   TextInputStyle, ActionRowBuilder, ModalSubmitInteraction,
-  CommandInteraction, ButtonBuilder, ButtonInteraction, ButtonStyle, EmbedBuilder, GuildMember } from 'discord.js';
+  CommandInteraction, ButtonBuilder, ButtonInteraction, ButtonStyle, EmbedBuilder, GuildMember,
+  time, TimestampStyles, MessageCreateOptions } from 'discord.js';
 import { ethers } from "ethers";
 import { Database, RunResult } from 'sqlite3';
 
@@ -17,13 +18,58 @@ import EventSource from 'eventsource';
 import axios from 'axios';
 import seedrandom from 'seedrandom';
 
+import {
+  networks, networkDefinition, cheapDepositNetworkDefinition, hasValidatorQueue,
+  queueCommandName, msgCommandName, cheapDepositCommandName } from './networks';
+import { maxTransactionCost } from './constants';
+import {
+  FAUCET_TRANSACTION_TABLE, CHEAP_DEPOSIT_TRANSACTION_TABLE, ledgerTransaction, initLedgerTables,
+  storeLedgerTransaction, confirmLedgerTransaction, getLedgerTransactions } from './ledger';
+import { walletLinkSource, findWalletLinks } from './wallet-links';
+import { capability, getCommandCapabilities, hasCapability, isVerified } from './permissions';
+import { initBotStateTable, getBotState, storeBotState } from './bot-state';
+import {
+  participationAlertThreshold, participationAlertState, participationAlertSeverity, loadParticipationAlertThresholds,
+  validateParticipationAlertThreshold, sortParticipationAlertThresholds, evaluateParticipationAlerts, participationAlertLabel,
+  formatParticipationRate, participationMetric, participationMetricNames, participationRates, participationAlertMetric,
+} from './participation-alerts';
+import { participationSourceKind, getParticipationSourceKind, fetchEpochParticipation } from './participation-source';
+import {
+  beaconNodeSwitch, beaconNodePool, beaconNodeName, createBeaconNodePool, refreshBeaconNodePool, beaconNodeRequest,
+} from './beacon-nodes';
+import {
+  SLOTS_PER_EPOCH, chainHealthTracker, createChainHealthTracker, resetChainHealthHead, recordHeadSlot, recordChainReorg, getEpochMissedRate, summarizeChainHealth,
+} from './chain-health';
+import {
+  slashedValidator, slashingKind, slashingEvent, storedSlashingEvent, initSlashingEventTable, storeSlashingEvent, isSlashingEventKnown,
+  getRecentSlashingEvents, loadValidatorLabels, validatorLabelsPath, getValidatorLabel, validatorDetails, fetchValidatorDetails,
+} from './slashings';
+import {
+  maxValidatorWatchesPerUser, validatorWatch, validatorStatus, initValidatorWatchTable, addValidatorWatch, removeValidatorWatch, getUserValidatorWatches,
+  getNetworkValidatorWatches, updateValidatorWatchStatus, updateValidatorWatchLiveness, fetchValidatorLiveness, fetchValidatorStatuses, fetchProposerDuties, fetchSlotHasBlock,
+} from './validator-watch';
+import {
+  validatorQueue, validatorQueueCache, currentEpoch, estimateElectraQueue, formatGweiAsEth,
+  fetchPendingDeposits, fetchPendingQueuedValidators, findPendingDepositPosition, findActivationQueuePosition, fetchBeaconNodeQueue, fetchBeaconchainQueue, getCachedValidatorQueue,
+} from './validator-queue';
+import {
+  queueSample, queueHistorySummary, initQueueHistoryTable, storeQueueSample, getQueueHistory, summarizeQueueHistory,
+} from './queue-history';
+import { commandResponse, responseSeverity, responseMessage, responseText } from './responses';
+import { finalityTracker, finalityChange, createFinalityTracker, fetchHeadSlot, fetchFinalityStatus, updateFinality } from './finality';
+import {
+  initParticipationHistoryTable, storeParticipationEpoch, getParticipationHistory, summarizeParticipationHistory,
+} from './participation-history';
+import {
+  faucetDefinition, loadFaucetDefinitions, faucetConfigPath, faucetCommandName, faucetRequestTable,
+  faucetEnoughReason, faucetRateLimit, faucetRequestAmount } from './faucets';
+import {
+  cheapDepositConfig, createCheapDepositConfig, initCheapDepositTable, initCheapDepositAdminTables,
+  getLastCheapDepositRequest, isCheapDepositWalletAlreadyUsed, storeCheapDeposit, provisionCheapDeposits,
+  resetCheapDeposit, grantCheapDeposits, storeCheapDepositAudit } from './cheap-deposit';
+
 const db = new Database('db.sqlite');
 const quickNewRequest = Duration.fromObject({ days: 1 });
-const maxTransactionCost = ethers.parseUnits("0.0001", "ether");
-const cheapDepositCost = ethers.parseUnits("0.0001", "ether");
-const cheapDepositCount = 2;
-const minRelativeCheapDepositCount = 5;
-const validatorDepositCost = ethers.parseUnits("32", "ether");
 
 const newAccountDelay = Duration.fromObject({ days: 14 });
 const joinedDiscordServerDelay = Duration.fromObject({ hours: 44 });
@@ -31,11 +77,6 @@ const joinedDiscordServerDelay = Duration.fromObject({ hours: 44 });
 const verifiedNewAccountDelay = Duration.fromObject({ days: 7 });
 const verifiedJoinedDiscordServerDelay = Duration.fromObject({ hours: 20 });
 
-const cheapDepositHoodiDelay = Duration.fromObject({ days: 20 });
-
-const restrictedRoles = new Set<string>(process.env.ROLE_IDS?.split(','));
-restrictedRoles.add(process.env.PASSPORT_ROLE_ID as string);
-
 const passportScoreThreshold = Number(process.env.PASSPORT_SCORE_THRESHOLD);
 
 const EPOCHS_PER_DAY = 225;
@@ -48,12 +89,6 @@ const GITCOIN_PASSPORT_URL = 'https://passport.gitcoin.co/';
 const PASSPORT_SCORE_URI = `https://api.scorer.gitcoin.co/registry/score/${process.env.GITCOIN_PASSPORT_SCORER_ID}/`;
 const SUBMIT_PASSPORT_URI = 'https://api.scorer.gitcoin.co/registry/submit-passport';
 
-const depositProxyContractHoodiAddress = process.env.PROXY_HOODI_DEPOSIT_CONTRACT as string;
-const depositProxyContractAbi = [
-  "function balanceOf(address,uint256) view returns (uint256)",
-  "function safeTransferFrom(address,address,uint256,uint256,bytes)",
-];
-
 interface networkConfig {
   network: string;
   currency: string;
@@ -72,15 +107,19 @@ interface networkConfig {
   needsVerification: boolean;
 };
 
-interface queueConfig {
-  network: string;
-  apiQueueUrl: string;
-}
-
 function delay(ms: number) {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+function queue_duration(days: number) {
+  let duration = Duration.fromObject({ days: days }).shiftTo('days', 'hours').normalize();
+  if (duration.days === 0) {
+    duration = duration.shiftTo('hours', 'minutes');
+  }
+  return duration;
+}
+
+// Per validator churn used before Electra
 function validator_churn_limit(active_validators?: number): number {
   let validators = 1;
   if (active_validators !== undefined){
@@ -107,40 +146,72 @@ const main = function() {
       console.log(`Mainnet RPC provider is at block number ${currentBlockNumber}.`);
     });
 
-    const hoodiProvider = new ethers.JsonRpcProvider(process.env.HOODI_RPC_ENDPOINT);
-    const hoodiTransactionMutex = new Mutex();
+    // Configuring the RPC providers for the networks that have one
+    const networkProviders = new Map<string, ethers.JsonRpcProvider>();
+    const networkTransactionMutexes = new Map<string, Mutex>();
 
-    hoodiProvider.getBlockNumber()
-    .then((currentBlockNumber) => {
-      console.log(`Hoodi RPC provider is at block number ${currentBlockNumber}.`);
-    })
-    .catch((error) => {
-      console.log(`${error} while trying to get block number from Hoodi provider.`);
+    networks.forEach((network) => {
+      if (network.rpcEndpoint === undefined) {
+        return;
+      }
+
+      const provider = new ethers.JsonRpcProvider(network.rpcEndpoint);
+      networkProviders.set(network.id, provider);
+      networkTransactionMutexes.set(network.id, new Mutex());
+
+      provider.getBlockNumber()
+      .then((currentBlockNumber) => {
+        console.log(`${network.name} RPC provider is at block number ${currentBlockNumber}.`);
+      })
+      .catch((error) => {
+        console.log(`${error} while trying to get block number from ${network.name} provider.`);
+      });
     });
 
     // Configuring the faucet commands
     const faucetCommandsConfig = new Map<string, networkConfig>();
 
-    const hoodiWallet = new ethers.Wallet(process.env.FAUCET_PRIVATE_KEY as string, hoodiProvider);
-
-    /*
-    faucetCommandsConfig.set('request-sepolia-eth', {
-      network: 'Sepolia',
-      currency: 'Sepolia ETH',
-      command: 'request-sepolia-eth',
-      channel: process.env.SEPOLIA_CHANNEL_NAME,
-      enoughReason: 'It should be plenty already for a few transactions',
-      requestTable: 'request_sepolia',
-      rateLimitDuration: Duration.fromObject({ days: 7 }),
-      explorerTxRoot: 'https://sepolia.etherscan.io/tx/',
-      existingRequest: new Map<string, boolean>(),
-      minEthers: validatorDepositCost + (maxTransactionCost * 2n),
-      requestAmount: ethers.parseUnits("1", "ether"),
-      wallet: new ethers.Wallet(process.env.FAUCET_PRIVATE_KEY as string, sepoliaProvider),
-      provider: sepoliaProvider,
-      transactionMutex: sepoliaTransactionMutex,
-      needsVerification: true,
-    });*/
+    let faucetDefinitions: Array<faucetDefinition> = [];
+    try {
+      faucetDefinitions = loadFaucetDefinitions();
+    } catch (error) {
+      console.error(`Could not load faucet configuration from ${faucetConfigPath()}.`);
+      console.error(error);
+    }
+
+    faucetDefinitions.forEach((faucet) => {
+      const rpcEndpoint = process.env[faucet.rpcEndpointEnv];
+      if (rpcEndpoint === undefined || rpcEndpoint === '') {
+        console.warn(`No RPC endpoint found in ${faucet.rpcEndpointEnv} for the ${faucet.network} faucet. This faucet is disabled.`);
+        return;
+      }
+
+      // Share the provider and the transaction mutex with the network registry when
+      // possible since the same wallet is used for cheap deposits.
+      const networkId = faucet.network.toLowerCase();
+      const provider = networkProviders.get(networkId) ?? new ethers.JsonRpcProvider(rpcEndpoint);
+      const transactionMutex = networkTransactionMutexes.get(networkId) ?? new Mutex();
+      const requestAmount = faucetRequestAmount(faucet);
+      const command = faucetCommandName(faucet);
+
+      faucetCommandsConfig.set(command, {
+        network: faucet.network,
+        currency: faucet.currency,
+        command: command,
+        channel: faucet.channel,
+        enoughReason: faucetEnoughReason(faucet),
+        requestTable: faucetRequestTable(faucet),
+        rateLimitDuration: faucetRateLimit(faucet),
+        explorerTxRoot: faucet.explorerTxRoot,
+        existingRequest: new Map<string, boolean>(),
+        minEthers: requestAmount + maxTransactionCost,
+        requestAmount: requestAmount,
+        wallet: new ethers.Wallet(process.env.FAUCET_PRIVATE_KEY as string, provider),
+        provider: provider,
+        transactionMutex: transactionMutex,
+        needsVerification: faucet.needsVerification,
+      });
+    });
 
     // Logging faucet wallet balance and remaining requests
     faucetCommandsConfig.forEach((config, key, map) => {
@@ -166,84 +237,107 @@ const main = function() {
     });
 
     // Configuring the queue commands
-    const queueCommandsConfig = new Map<string, queueConfig>();
+    const queueCommandsConfig = new Map<string, networkDefinition>();
+
+    // Configuring the network message and cheap deposit commands
+    const msgCommandsConfig = new Map<string, networkDefinition>();
+    const cheapDepositCommandsConfig = new Map<string, cheapDepositConfig>();
+    const cheapDepositButtonsConfig = new Map<string, cheapDepositConfig>();
+    const cheapDepositModalsConfig = new Map<string, cheapDepositConfig>();
+
+    networks.forEach((network) => {
+      if (hasValidatorQueue(network)) {
+        queueCommandsConfig.set(queueCommandName(network), network);
+      }
+      if (network.cheapDeposit !== undefined) {
+        const provider = networkProviders.get(network.id);
+        if (provider === undefined) {
+          console.warn(`No RPC endpoint configured for ${network.name}. Cheap deposits are disabled on that network.`);
+          return;
+        }
 
-    queueCommandsConfig.set('queue-mainnet', {
-      network: 'Mainnet',
-      apiQueueUrl: 'https://beaconcha.in/api/v1/validators/queue'
+        const config = createCheapDepositConfig(network, provider, networkTransactionMutexes.get(network.id) as Mutex);
+        msgCommandsConfig.set(msgCommandName(network), network);
+        cheapDepositCommandsConfig.set(cheapDepositCommandName(network), config);
+        cheapDepositButtonsConfig.set(config.buttonCustomId, config);
+        cheapDepositModalsConfig.set(config.modalCustomId, config);
+      }
     });
 
     const initDb = function(db: Database, faucetCommandsConfig: Map<string, networkConfig>) {
       return new Promise<void>(async (resolve, reject) => {
         db.serialize(() => {
-          db.run(`CREATE TABLE IF NOT EXISTS passport (walletAddress TEXT PRIMARY KEY UNIQUE NOT NULL, userId TEXT NOT NULL);`, (error: Error | null) => {
+          db.run(`CREATE TABLE IF NOT EXISTS passport (walletAddress TEXT PRIMARY KEY UNIQUE NOT NULL, userId TEXT NOT NULL, verifiedAt INTEGER);`, (error: Error | null) => {
             if (error !== null) {
               reject(error);
               return;
             }
           });
 
-          db.run(`CREATE UNIQUE INDEX IF NOT EXISTS passport_walletAddress on passport ( walletAddress );`, (error: Error | null) => {
-            if (error !== null) {
-              reject(error);
-              return;
+          let hasVerifiedAt = false;
+          db.each(`PRAGMA table_info(passport);`, (error: Error | null, row: any ) => {
+            if (row.name === 'verifiedAt') {
+              hasVerifiedAt = true;
             }
-          });
-
-          db.run(`CREATE TABLE IF NOT EXISTS passport_stamp (passport INTEGER NOT NULL, provider TEXT NOT NULL, hash TEXT NOT NULL);`, (error: Error | null) => {
+          }, (error: Error | null, count: number) => {
             if (error !== null) {
               reject(error);
               return;
             }
-          });
 
-          db.run(`CREATE UNIQUE INDEX IF NOT EXISTS passport_stamp_provider_hash on passport_stamp ( provider, hash );`, (error: Error | null) => {
-            if (error !== null) {
-              reject(error);
-              return;
+            if (!hasVerifiedAt) {
+              db.run(`ALTER TABLE passport ADD COLUMN verifiedAt INTEGER;`, (error: Error | null) => {
+                if (error !== null) {
+                  reject(error);
+                  return;
+                }
+              });
             }
           });
 
-          db.run(`CREATE TABLE IF NOT EXISTS cheap_deposit (walletAddress TEXT UNIQUE NOT NULL, userId TEXT UNIQUE NOT NULL, lastRequested INTEGER NOT NULL);`, (error: Error | null) => {
+          db.run(`CREATE UNIQUE INDEX IF NOT EXISTS passport_walletAddress on passport ( walletAddress );`, (error: Error | null) => {
             if (error !== null) {
               reject(error);
               return;
             }
           });
 
-          db.run(`CREATE UNIQUE INDEX IF NOT EXISTS cheap_deposit_walletAddress on passport ( walletAddress );`, (error: Error | null) => {
+          db.run(`CREATE TABLE IF NOT EXISTS passport_stamp (passport INTEGER NOT NULL, provider TEXT NOT NULL, hash TEXT NOT NULL);`, (error: Error | null) => {
             if (error !== null) {
               reject(error);
               return;
             }
           });
 
-          db.run(`CREATE UNIQUE INDEX IF NOT EXISTS cheap_deposit_userId on passport ( userId );`, (error: Error | null) => {
+          db.run(`CREATE UNIQUE INDEX IF NOT EXISTS passport_stamp_provider_hash on passport_stamp ( provider, hash );`, (error: Error | null) => {
             if (error !== null) {
               reject(error);
               return;
             }
           });
 
-          db.run(`CREATE TABLE IF NOT EXISTS cheap_deposit_hoodi (walletAddress TEXT UNIQUE NOT NULL, userId TEXT UNIQUE NOT NULL, lastRequested INTEGER NOT NULL);`, (error: Error | null) => {
+          db.run(`CREATE TABLE IF NOT EXISTS cheap_deposit (walletAddress TEXT UNIQUE NOT NULL, userId TEXT UNIQUE NOT NULL, lastRequested INTEGER NOT NULL);`, (error: Error | null) => {
             if (error !== null) {
               reject(error);
               return;
             }
           });
 
-          db.run(`CREATE UNIQUE INDEX IF NOT EXISTS cheap_deposit_hoodi_walletAddress on cheap_deposit_hoodi ( walletAddress );`, (error: Error | null) => {
+          db.run(`CREATE UNIQUE INDEX IF NOT EXISTS cheap_deposit_walletAddress on passport ( walletAddress );`, (error: Error | null) => {
             if (error !== null) {
               reject(error);
               return;
             }
           });
 
-          db.run(`CREATE UNIQUE INDEX IF NOT EXISTS cheap_deposit_hoodi_userId on cheap_deposit_hoodi ( userId );`, (error: Error | null) => {
+          db.run(`CREATE UNIQUE INDEX IF NOT EXISTS cheap_deposit_userId on passport ( userId );`, (error: Error | null) => {
             if (error !== null) {
               reject(error);
               return;
             }
+            if (faucetCommandsConfig.size === 0) {
+              resolve();
+            }
           });
 
           let index = 0;
@@ -302,7 +396,17 @@ const main = function() {
       });
     };
 
-    initDb(db, faucetCommandsConfig)
+    const databaseInitialized = Promise.all([
+      initDb(db, faucetCommandsConfig),
+      initBotStateTable(db),
+      initParticipationHistoryTable(db),
+      initQueueHistoryTable(db),
+      initSlashingEventTable(db),
+      initValidatorWatchTable(db),
+      initLedgerTables(db),
+      initCheapDepositAdminTables(db),
+      ...Array.from(cheapDepositCommandsConfig.values()).map((config) => initCheapDepositTable(db, config)),
+    ])
     .then(() => {
       console.log('Database initialized successful!');
     }).catch((reason) => {
@@ -310,10 +414,24 @@ const main = function() {
       console.error(reason);
     });
 
-    interface lastCheapDepositRequest {
-      walletAddress: string,
-      lastRequested: number;
-    }
+    const PARTICIPATION_RATE_AUTO_POST_STATE = 'participation_rate_auto_post';
+    const PARTICIPATION_RATE_ALERT_STATE = 'participation_rate_alert_triggering';
+    const PARTICIPATION_ALERT_THRESHOLDS_STATE = 'participation_alert_thresholds';
+    const FINALITY_STATE = 'finality_tracker';
+    const QUEUE_AUTO_POST_STATE = 'queue_auto_post';
+
+    interface participationRateAutoPostState {
+      enabled: boolean;
+      channelId: string | null;
+    };
+
+    // lastPostedAt is in milliseconds so the daily report keeps its schedule
+    // across restarts
+    interface queueAutoPostState {
+      enabled: boolean;
+      channelId: string | null;
+      lastPostedAt: number | null;
+    };
 
     interface lastRequest {
       lastRequested: number;
@@ -323,77 +441,49 @@ const main = function() {
     let participationRateAutoPost = false;
     let participationRateAutoPostChannel: TextChannel | null = null;
 
+    let queueAutoPost: queueAutoPostState = { enabled: false, channelId: null, lastPostedAt: null };
+    let queueAutoPostChannel: TextChannel | null = null;
+
     let currentParticipationRate: number | null = null;
     let previousParticipationRate: number | null = null;
+    let previousParticipationRates: participationRates = {};
     let currentParticipationRateEpoch: number | null = null;
     let currentParticipationRateDate: number | null = null;
-    const twoThird = 2 / 3;
 
-    const getLastCheapDepositHoodiRequest = function(userId: string) {
-      return new Promise<lastCheapDepositRequest | null>(async (resolve, reject) => {
-        db.get(`SELECT walletAddress, lastRequested from cheap_deposit_hoodi WHERE userId = ?;`, userId, (error: Error | null, row: any ) => {
-          if (error !== null) {
-            reject(error);
-            return;
-          }
-          if (row === undefined) {
-            resolve(null);
-          } else {
-            const value = row as lastCheapDepositRequest;
-            resolve(value);
-          }
-        });
+    // Thresholds edited with /participation-alerts take precedence over the
+    // config file
+    let participationAlertThresholds = loadParticipationAlertThresholds();
+    databaseInitialized
+    .then(() => getBotState<Array<participationAlertThreshold>>(db, PARTICIPATION_ALERT_THRESHOLDS_STATE))
+    .then((thresholds) => {
+      if (thresholds !== null) {
+        participationAlertThresholds = sortParticipationAlertThresholds(thresholds);
+      }
+    })
+    .catch((error) => {
+      console.log(`Unable to restore the participation alert thresholds. ${error}`);
+    });
+
+    const participationAlertThresholdsMessage = function() {
+      if (participationAlertThresholds.length === 0) {
+        return 'There is no participation rate alert threshold configured.';
+      }
+      const lines = participationAlertThresholds.map((threshold) => {
+        const triggered = participationRateAlertTriggering[threshold.id] ? ' (triggered)' : '';
+        const margin = threshold.recoveryMargin !== undefined ? `, recovery margin ${(threshold.recoveryMargin * 100.0).toLocaleString('en-US', { maximumFractionDigits: 2 })}%` : '';
+        return `- \`${threshold.id}\`: ${participationAlertMetric(threshold)} below ${participationAlertLabel(threshold)}, ${threshold.severity}${margin}${triggered}`;
       });
+      return `Participation rate alert thresholds:\n${lines.join('\n')}`;
     };
 
-    const isCheapDepositsHoodiWalletAlreadyUsed = function(walletAddress: string, userId: string) {
-      return new Promise<boolean>(async (resolve, reject) => {
-        db.get(`SELECT walletAddress from cheap_deposit_hoodi WHERE walletAddress = ? and userId != ?;`, walletAddress, userId, (error: Error | null, row: any ) => {
+    const getPassportWallets = function(userId: string) {
+      return new Promise<Array<string>>(async (resolve, reject) => {
+        db.all(`SELECT walletAddress from passport WHERE userId = ?;`, userId, (error: Error | null, rows: any[] ) => {
           if (error !== null) {
             reject(error);
             return;
           }
-          if (row === undefined) {
-            resolve(false);
-          } else {
-            resolve(true);
-          }
-        });
-      });
-    }
-
-    const storeCheapDepositsHoodi = function(walletAddress: string, userId: string) {
-      return new Promise<void>(async (resolve, reject) => {
-        db.serialize(() => {
-          let doInsert = true;
-          db.get(`SELECT walletAddress, lastRequested from cheap_deposit_hoodi WHERE userId = ?;`, userId, (error: Error | null, row: any ) => {
-            if (error !== null) {
-              reject(error);
-              return;
-            }
-            if (row !== undefined) {
-              doInsert = false;
-            }
-
-            const lastRequested = Math.floor(DateTime.utc().toMillis() / 1000);
-            if (doInsert) {
-              db.run(`INSERT INTO cheap_deposit_hoodi(walletAddress, userId, lastRequested) VALUES(?, ?, ?);`, walletAddress, userId, lastRequested, (error: Error | null) => {
-                if (error !== null) {
-                  reject(error);
-                  return;
-                }
-                resolve();
-              });
-            } else {
-              db.run(`UPDATE cheap_deposit_hoodi SET walletAddress = ?, lastRequested = ? WHERE userId = ?;`, walletAddress, lastRequested, userId, (error: Error | null) => {
-                if (error !== null) {
-                  reject(error);
-                  return;
-                }
-                resolve();
-              });
-            }
-          });
+          resolve(rows.map((row) => row.walletAddress as string));
         });
       });
     };
@@ -423,7 +513,8 @@ const main = function() {
             }
             resolve(this.lastID);
           };
-          db.run(`INSERT INTO passport(walletAddress, userId) VALUES(?, ?);`, walletAddress, userId, callback);
+          const verifiedAt = Math.floor(DateTime.utc().toMillis() / 1000);
+          db.run(`INSERT INTO passport(walletAddress, userId, verifiedAt) VALUES(?, ?, ?);`, walletAddress, userId, verifiedAt, callback);
         });
       });
     };
@@ -485,6 +576,46 @@ const main = function() {
 
     client.on('ready', () => {
       console.log(`Logged in as ${client.user?.tag}!`);
+
+      // Restoring the participation rate auto post from before the last restart
+      databaseInitialized
+      .then(() => getBotState<participationRateAutoPostState>(db, PARTICIPATION_RATE_AUTO_POST_STATE))
+      .then((state) => {
+        if (state === null || !state.enabled || state.channelId === null) {
+          return;
+        }
+        const channel = client.channels.cache.find((channel) => channel.id === state.channelId) as TextChannel | undefined;
+        if (channel === undefined) {
+          console.log(`Unable to find channel ${state.channelId} to restore the participation rate auto post.`);
+          return;
+        }
+        participationRateAutoPost = true;
+        participationRateAutoPostChannel = channel;
+        console.log(`Participation rate auto post restored on #${channel.name}.`);
+      })
+      .catch((error) => {
+        console.log(`Unable to restore the participation rate auto post. ${error}`);
+      });
+
+      // Restoring the queue report auto post from before the last restart
+      databaseInitialized
+      .then(() => getBotState<queueAutoPostState>(db, QUEUE_AUTO_POST_STATE))
+      .then((state) => {
+        if (state === null || !state.enabled || state.channelId === null) {
+          return;
+        }
+        const channel = client.channels.cache.find((channel) => channel.id === state.channelId) as TextChannel | undefined;
+        if (channel === undefined) {
+          console.log(`Unable to find channel ${state.channelId} to restore the queue report auto post.`);
+          return;
+        }
+        queueAutoPost = state;
+        queueAutoPostChannel = channel;
+        console.log(`Queue report auto post restored on #${channel.name}.`);
+      })
+      .catch((error) => {
+        console.log(`Unable to restore the queue report auto post. ${error}`);
+      });
     });
 
     client.on('error', (error: Error) => {
@@ -510,6 +641,47 @@ const main = function() {
 
     });
 
+    const commandCapabilities = getCommandCapabilities(faucetDefinitions);
+
+    const memberRoleIds = function(interaction: CommandInteraction) {
+      const roles = interaction.member?.roles as GuildMemberRoleManager | undefined;
+      return roles !== undefined ? Array.from(roles.cache.keys()) : [];
+    };
+
+    const missingCapabilityMessage = function(commandName: string, required: capability, userMen: string) {
+      if (required === 'admin') {
+        return `You cannot use this command (${commandName}). You are not my master for ${userMen}.`;
+      } else if (required === 'moderator') {
+        return `You cannot use this command (${commandName}). You are not a moderator for ${userMen}.`;
+      }
+      const brightIdMention = channelMention(process.env.BRIGHTID_VERIFICATION_CHANNEL_ID as string);
+      const passportVerificationMention = channelMention(process.env.PASSPORT_CHANNEL_ID as string);
+      return `You cannot use this command without the correct role. Join ${brightIdMention} or ${passportVerificationMention} to get started for ${userMen}.`;
+    };
+
+    const formatLedgerTransaction = function(transaction: ledgerTransaction) {
+      const createdAt = time(transaction.createdAt, TimestampStyles.ShortDate);
+      const amount = transaction.kind === 'token_transfer' ? `${transaction.amount} tokens` : `${ethers.formatEther(BigInt(transaction.amount))} ETH`;
+      const kind = transaction.kind ?? 'faucet';
+      return `- ${createdAt} ${transaction.network} ${kind} of ${amount} to \`${transaction.walletAddress}\` (${transaction.status}, \`${transaction.transactionHash}\`)`;
+    };
+
+    const walletLinkSources = function() {
+      const sources: Array<walletLinkSource> = [
+        { name: 'Gitcoin Passport', tableName: 'passport', addressColumn: 'walletAddress', timeColumn: 'verifiedAt' },
+        { name: 'Legacy cheap deposits', tableName: 'cheap_deposit', addressColumn: 'walletAddress', timeColumn: 'lastRequested' },
+      ];
+      cheapDepositCommandsConfig.forEach((config) => {
+        sources.push({ name: `Cheap deposits on ${config.network.name}`, tableName: config.cheapDeposit.requestTable, addressColumn: 'walletAddress', timeColumn: 'lastRequested' });
+      });
+      faucetCommandsConfig.forEach((config) => {
+        sources.push({ name: `${config.network} faucet`, tableName: config.requestTable, addressColumn: 'lastAddress', timeColumn: 'lastRequested' });
+      });
+      sources.push({ name: 'Faucet transactions', tableName: FAUCET_TRANSACTION_TABLE, addressColumn: 'walletAddress', timeColumn: 'createdAt' });
+      sources.push({ name: 'Cheap deposit transactions', tableName: CHEAP_DEPOSIT_TRANSACTION_TABLE, addressColumn: 'walletAddress', timeColumn: 'createdAt' });
+      return sources;
+    };
+
     const handleCommandInteraction = function(interaction: CommandInteraction) {
       return new Promise<void>(async (resolve, reject) => {
 
@@ -518,21 +690,23 @@ const main = function() {
         const userId = interaction.user.id;
         const userMen = userMention(userId);
 
+        // Check if the user has the capability required by this command
+        const requiredCapability = commandCapabilities.get(commandName);
+        if (requiredCapability !== undefined && !hasCapability(userId, memberRoleIds(interaction), requiredCapability)) {
+          await interaction.reply({
+            content: missingCapabilityMessage(commandName, requiredCapability, userMen),
+            allowedMentions: { parse: ['users'], repliedUser: false },
+            ephemeral: true
+          });
+          reject(`No permission to use this command (${commandName}). ${requiredCapability} is required for @${userTag} (${userId}).`);
+          return;
+        }
+
         if (commandName === 'ping') {
           console.log(`Ping from ${userTag} (${userId})!`);
           await interaction.reply('Pong!');
         } else if (commandName === 'participation-mainnet-auto') {
 
-          // Check if it's my master
-          if (userId !== process.env.MASTER_USER_ID) {
-            await interaction.reply({
-              content: `You cannot use this command (${commandName}). You are not my master for ${userMen}.`,
-              allowedMentions: { parse: ['users'], repliedUser: false }
-            });
-            reject('No permission to use this command.');
-            return;
-          }
-
           const enabled = interaction.options.get('enabled', true).value as boolean;
 
           participationRateAutoPost = enabled;
@@ -551,104 +725,759 @@ const main = function() {
             });
           }
 
-        } else if (commandName === 'participation-mainnet') {
-          console.log(`${commandName} from ${userTag} (${userId})`);
-
-          const message = participationRateMessage(userTag, userId, userMen);
-          await interaction.reply({
-            content: message,
-            allowedMentions: { parse: ['users'], repliedUser: false }
+          const autoPostState: participationRateAutoPostState = {
+            enabled: participationRateAutoPost,
+            channelId: participationRateAutoPost ? interaction.channelId : null,
+          };
+          await storeBotState(db, PARTICIPATION_RATE_AUTO_POST_STATE, autoPostState).catch((error) => {
+            console.log(`Unable to store the participation rate auto post. ${error}`);
           });
 
-        } else if (faucetCommandsConfig.has(commandName)) {
-          let targetAddress = interaction.options.get('address', true).value as string;
-          console.log(`${commandName} from ${userTag} (${userId}) to ${targetAddress}!`);
-
-          const config = faucetCommandsConfig.get(commandName) as networkConfig;
-          const channelName = config.channel;
-          const transactionMutex = config.transactionMutex;
+        } else if (commandName === 'queue-mainnet-auto') {
 
-          if (channelName !== undefined && channelName !== '') {
-            const restrictChannel = interaction.guild?.channels.cache.find((channel) => channel.name === channelName);
-            if (restrictChannel !== undefined) {
-              if (interaction.channelId !== restrictChannel.id) {
-                const channelMen = channelMention(restrictChannel.id);
-                await interaction.reply({
-                  content: `This is the wrong channel for this bot command (${commandName}). You should try in ${channelMen} for ${userMen}.`,
-                  allowedMentions: { parse: ['users'], repliedUser: false }
-                });
-                reject(`This is the wrong channel for this bot command (${commandName}). You should try in #${restrictChannel.name} for @${userTag} (${userId}).`);
-                return;
-              }
-            }
-          }
+          const enabled = interaction.options.get('enabled', true).value as boolean;
 
-          // mutex on userId
-          const existingRequest = config.existingRequest;
+          if (enabled) {
+            queueAutoPostChannel = client.channels.cache.find((channel) => channel.id === interaction.channelId) as TextChannel;
+            queueAutoPost = { enabled: true, channelId: interaction.channelId, lastPostedAt: queueAutoPost.lastPostedAt };
 
-          if (existingRequest.get(userId) === true) {
             await interaction.reply({
-              content: `You already have a pending request. Please wait until your request is completed for ${userMen}.`,
+              content: `Daily queue report auto post for Mainnet enabled on ${channelMention(interaction.channelId)} for ${userMen}.`,
               allowedMentions: { parse: ['users'], repliedUser: false }
             });
-            reject(`You already have a pending request. Please wait until your request is completed for @${userTag} (${userId}).`);
-            return;
           } else {
-            existingRequest.set(userId, true);
-          }
+            queueAutoPostChannel = null;
+            queueAutoPost = { enabled: false, channelId: null, lastPostedAt: queueAutoPost.lastPostedAt };
 
-          try {
+            await interaction.reply({
+              content: `Daily queue report auto post for Mainnet disabled for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false }
+            });
+          }
 
-            // Check for user role
-            await interaction.reply({ content: 'Checking if you have the proper role...', ephemeral: true });
-            if (config.needsVerification) {
-              const hasRole = restrictedRoles.size === 0 || (interaction.member?.roles as GuildMemberRoleManager).cache.find((role) => restrictedRoles.has(role.id)) !== undefined;
-              if (!hasRole) {
-                const brightIdMention = channelMention(process.env.BRIGHTID_VERIFICATION_CHANNEL_ID as string);
-                const passportVerificationMention = channelMention(process.env.PASSPORT_CHANNEL_ID as string);
+          await storeBotState(db, QUEUE_AUTO_POST_STATE, queueAutoPost).catch((error) => {
+            console.log(`Unable to store the queue report auto post. ${error}`);
+          });
 
-                await interaction.followUp({
-                  content: `You cannot use this command without the correct role. Join ${brightIdMention} or ${passportVerificationMention} to get started for ${userMen}.`,
-                  allowedMentions: { parse: ['users'], repliedUser: false }
-                });
-                reject(`You cannot use this command without the correct role for @${userTag} (${userId}).`);
-                return;
-              }
-            }
+        } else if (commandName === 'participation-alerts') {
+          console.log(`${commandName} from ${userTag} (${userId})`);
 
-            const userCreatedAt = interaction.user.createdTimestamp;
-            const userExistDuration = DateTime.utc().toMillis() - userCreatedAt;
+          const action = interaction.options.get('action', true).value as string;
+          const thresholdId = interaction.options.get('id')?.value as string | undefined;
 
-            const memberJoinedAt = (interaction.member as GuildMember).joinedTimestamp;
-            const memberDuration = DateTime.utc().toMillis() - (memberJoinedAt as number);
+          if (action === 'list') {
+            await interaction.reply({
+              content: participationAlertThresholdsMessage(),
+              allowedMentions: { parse: ['users'], repliedUser: false },
+              ephemeral: true
+            });
+            resolve();
+            return;
+          }
 
-            // Check for new accounts
-            await interaction.editReply({
-              content: `Checking if you have a new account...`
+          if (thresholdId === undefined) {
+            await interaction.reply({
+              content: `You need to provide the threshold id to ${action} for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false },
+              ephemeral: true
             });
-            if (userExistDuration < newAccountDelay.toMillis()) {
-              await interaction.followUp({
-                content: `Your Discord account was just created. We need to ` +
-                        `restrict access for this command (${commandName}) for new accounts ` +
-                        `because of abuses. ` +
-                        `Please try again in a few days for ${userMen}.`,
+            reject(`Missing threshold id to ${action} for @${userTag} (${userId}).`);
+            return;
+          }
+
+          const existing = participationAlertThresholds.find((threshold) => threshold.id === thresholdId);
+          let newThresholds: Array<participationAlertThreshold>;
+
+          if (action === 'remove') {
+            if (existing === undefined) {
+              await interaction.reply({
+                content: `There is no participation rate alert threshold with id \`${thresholdId}\` for ${userMen}.`,
+                allowedMentions: { parse: ['users'], repliedUser: false },
+                ephemeral: true
               });
-              reject(`Your Discord account was just created. We need to restrict access for new accounts because of abuses. Please try again in a few days for ${userTag} (${userId})`);
+              reject(`Unknown participation alert threshold ${thresholdId} for @${userTag} (${userId}).`);
               return;
             }
+            newThresholds = participationAlertThresholds.filter((threshold) => threshold.id !== thresholdId);
+          } else {
+            const percent = interaction.options.get('percent')?.value as number | undefined;
+            const severity = interaction.options.get('severity')?.value as participationAlertSeverity | undefined;
+            const label = interaction.options.get('label')?.value as string | undefined;
+            const marginPercent = interaction.options.get('recovery_margin')?.value as number | undefined;
+            const metric = interaction.options.get('metric')?.value as participationMetric | undefined;
 
-            // Check for new guild member
-            await interaction.editReply({
-              content: `Checking if you recently joined the EthStaker Discord server...`
-            });
-            if (memberDuration < joinedDiscordServerDelay.toMillis()) {
-              await interaction.followUp({
-                content: `You just joined the EthStaker Discord server. We need to ` +
-                        `restrict access for this command (${commandName}) for members ` +
-                        `who just joined because of abuses. ` +
-                        `Please try again in a few days for ${userMen}.`,
+            if (existing === undefined && (percent === undefined || severity === undefined)) {
+              await interaction.reply({
+                content: `You need to provide the percent and the severity to add a new threshold for ${userMen}.`,
+                allowedMentions: { parse: ['users'], repliedUser: false },
+                ephemeral: true
               });
-              reject(`You just joined the EthStaker Discord server. We need to restrict access for members who just joined because of abuses. Please try again in a few days for ${userTag} (${userId})`);
+              reject(`Missing percent or severity for new participation alert threshold ${thresholdId} for @${userTag} (${userId}).`);
+              return;
+            }
+
+            const newThreshold: participationAlertThreshold = {
+              ...(existing ?? { id: thresholdId, threshold: 0, severity: 'warning' }),
+            };
+            if (percent !== undefined) {
+              newThreshold.threshold = percent / 100.0;
+              // A custom label would not match the new threshold anymore
+              if (label === undefined) {
+                delete newThreshold.label;
+              }
+            }
+            if (severity !== undefined) {
+              newThreshold.severity = severity;
+            }
+            if (label !== undefined) {
+              newThreshold.label = label;
+            }
+            if (marginPercent !== undefined) {
+              newThreshold.recoveryMargin = marginPercent / 100.0;
+            }
+            if (metric !== undefined) {
+              newThreshold.metric = metric;
+            }
+
+            const validationError = validateParticipationAlertThreshold(newThreshold);
+            if (validationError !== null) {
+              await interaction.reply({
+                content: `This threshold has an ${validationError} for ${userMen}.`,
+                allowedMentions: { parse: ['users'], repliedUser: false },
+                ephemeral: true
+              });
+              reject(`Invalid participation alert threshold for @${userTag} (${userId}). ${validationError}`);
+              return;
+            }
+
+            newThresholds = participationAlertThresholds.filter((threshold) => threshold.id !== thresholdId);
+            newThresholds.push(newThreshold);
+          }
+
+          try {
+            await storeBotState(db, PARTICIPATION_ALERT_THRESHOLDS_STATE, newThresholds);
+          } catch (error) {
+            await interaction.reply({
+              content: `Unable to save the participation rate alert thresholds for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false },
+              ephemeral: true
+            });
+            reject(`Unable to store the participation alert thresholds for @${userTag} (${userId}). ${error}`);
+            return;
+          }
+          participationAlertThresholds = sortParticipationAlertThresholds(newThresholds);
+
+          await interaction.reply({
+            content: `Participation rate alert threshold \`${thresholdId}\` ${action === 'remove' ? 'removed' : 'saved'} for ${userMen}.\n\n${participationAlertThresholdsMessage()}`,
+            allowedMentions: { parse: ['users'], repliedUser: false },
+            ephemeral: true
+          });
+
+        } else if (commandName === 'user-info') {
+          console.log(`${commandName} from ${userTag} (${userId})`);
+
+          const targetUser = interaction.options.getUser('user', true);
+          const targetUserId = targetUser.id;
+
+          try {
+            await interaction.reply({ content: `Looking up ${targetUser.tag}...`, ephemeral: true });
+
+            let rolesValue = 'Not a member of this server.';
+            const targetMember = await interaction.guild?.members.fetch(targetUserId).catch(() => null);
+            if (targetMember !== undefined && targetMember !== null) {
+              const hasPassportRole = targetMember.roles.cache.has(process.env.PASSPORT_ROLE_ID as string);
+              const hasFarmerRole = targetMember.roles.cache.has(process.env.FARMER_ROLE_ID?.trim() as string);
+              rolesValue = `Passport role: **${hasPassportRole ? 'yes' : 'no'}**\nFarmer role: **${hasFarmerRole ? 'yes' : 'no'}**`;
+            }
+
+            const passportWallets = await getPassportWallets(targetUserId);
+            const passportValue = passportWallets.length > 0 ? passportWallets.map((address) => `\`${address}\``).join('\n') : 'None';
+
+            const embed = new EmbedBuilder()
+              .setTitle(`User info for ${targetUser.tag}`)
+              .setDescription(`${userMention(targetUserId)} (${targetUserId})`)
+              .addFields(
+                { name: 'Roles', value: rolesValue },
+                { name: 'Passport wallet', value: passportValue },
+              );
+
+            for (const config of cheapDepositCommandsConfig.values()) {
+              const lastRequest = await getLastCheapDepositRequest(db, config, targetUserId);
+              let value = lastRequest === null ? 'None' :
+                `\`${lastRequest.walletAddress}\` last requested ${time(lastRequest.lastRequested, TimestampStyles.RelativeTime)}`;
+              if (lastRequest !== null && lastRequest.grants > 0) {
+                value = value.concat(` with ${lastRequest.grants} extra requests granted`);
+              }
+              embed.addFields({ name: `Cheap deposits on ${config.network.name}`, value: value });
+            }
+
+            for (const config of faucetCommandsConfig.values()) {
+              const lastRequest = await getLastRequest(targetUserId, config.requestTable);
+              const value = lastRequest === null ? 'None' :
+                `\`${lastRequest.lastAddress}\` last requested ${time(lastRequest.lastRequested, TimestampStyles.RelativeTime)}`;
+              embed.addFields({ name: `${config.network} faucet`, value: value });
+            }
+
+            const transactionLimit = 5;
+            const transactions = [
+              ...await getLedgerTransactions(db, FAUCET_TRANSACTION_TABLE, targetUserId, transactionLimit),
+              ...await getLedgerTransactions(db, CHEAP_DEPOSIT_TRANSACTION_TABLE, targetUserId, transactionLimit),
+            ].sort((a, b) => b.createdAt - a.createdAt).slice(0, transactionLimit);
+            const transactionsValue = transactions.length > 0 ? transactions.map(formatLedgerTransaction).join('\n') : 'None';
+            embed.addFields({ name: 'Recent transactions', value: transactionsValue.slice(0, 1024) });
+
+            await interaction.editReply({ content: '', embeds: [embed] });
+
+          } catch (error) {
+            console.log(`Error while trying to look up ${targetUser.tag} (${targetUserId}) for @${userTag} (${userId}). ${error}`);
+            console.log(error);
+            await interaction.followUp({ content: `Error while trying to look up ${targetUser.tag} for ${userMen}. ${error}`, ephemeral: true });
+          }
+
+        } else if (commandName === 'wallet-lookup') {
+          console.log(`${commandName} from ${userTag} (${userId})`);
+
+          let targetAddress = interaction.options.get('address', true).value as string;
+
+          try {
+            await interaction.reply({ content: `Looking up ${targetAddress}...`, ephemeral: true });
+
+            // Potentially resolving the ENS address
+            if (targetAddress.indexOf('.') >= 0) {
+              await interaction.editReply(`Resolving ENS ${targetAddress}...`);
+              const resolvedAddress = await mainnetProvider.resolveName(targetAddress);
+              if (resolvedAddress === null) {
+                await interaction.editReply(`No address found for ENS ${targetAddress}.`);
+                reject(`No address found for ENS ${targetAddress} for @${userTag} (${userId}).`);
+                return;
+              }
+              targetAddress = resolvedAddress;
+            } else if (!ethers.isAddress(targetAddress)) {
+              await interaction.editReply(`The wallet address provided (${targetAddress}) is not valid.`);
+              reject(`The wallet address provided (${targetAddress}) is not valid for @${userTag} (${userId})`);
+              return;
+            }
+            targetAddress = ethers.getAddress(targetAddress);
+
+            const links = await findWalletLinks(db, walletLinkSources(), targetAddress);
+
+            const embed = new EmbedBuilder()
+              .setTitle('Wallet lookup')
+              .setDescription(`\`${targetAddress}\``);
+
+            if (links.length === 0) {
+              embed.addFields({ name: 'Linked users', value: 'This wallet address is not linked to any Discord user.' });
+            } else {
+              const linksBySource = new Map<string, Array<string>>();
+              links.forEach((link) => {
+                const linkedAt = link.linkedAt !== null && link.linkedAt > 0 ? time(link.linkedAt, TimestampStyles.ShortDateTime) : 'unknown time';
+                const lines = linksBySource.get(link.source) ?? [];
+                lines.push(`- ${userMention(link.userId)} (${link.userId}) at ${linkedAt}`);
+                linksBySource.set(link.source, lines);
+              });
+              linksBySource.forEach((lines, source) => {
+                embed.addFields({ name: source, value: lines.join('\n').slice(0, 1024) });
+              });
+            }
+
+            console.log(`Found ${links.length} links for ${targetAddress} for @${userTag} (${userId}).`);
+            await interaction.editReply({ content: '', embeds: [embed] });
+
+          } catch (error) {
+            console.log(`Error while trying to look up ${targetAddress} for @${userTag} (${userId}). ${error}`);
+            console.log(error);
+            await interaction.followUp({ content: `Error while trying to look up ${targetAddress} for ${userMen}. ${error}`, ephemeral: true });
+          }
+
+        } else if (commandName === 'cheap-deposit-reset' || commandName === 'cheap-deposit-grant') {
+          console.log(`${commandName} from ${userTag} (${userId})`);
+
+          const networkId = interaction.options.get('network', true).value as string;
+          const targetUser = interaction.options.getUser('user', true);
+          const targetUserId = targetUser.id;
+          const reason = interaction.options.get('reason', true).value as string;
+
+          const config = Array.from(cheapDepositCommandsConfig.values()).find((config) => config.network.id === networkId);
+          if (config === undefined) {
+            await interaction.reply({ content: `Cheap deposits are not available on ${networkId} for ${userMen}.`, ephemeral: true });
+            reject(`Cheap deposits are not available on ${networkId} for @${userTag} (${userId}).`);
+            return;
+          }
+          const network = config.network;
+
+          try {
+            let message = '';
+            if (commandName === 'cheap-deposit-reset') {
+              const unlinkWallet = (interaction.options.get('unlink_wallet', false)?.value as boolean | undefined) ?? false;
+              const found = await resetCheapDeposit(db, config, targetUserId, unlinkWallet);
+              if (!found) {
+                await interaction.reply({ content: `${targetUser.tag} never requested cheap deposits on ${network.name}. Nothing to reset for ${userMen}.`, ephemeral: true });
+                reject(`${targetUser.tag} (${targetUserId}) never requested cheap deposits on ${network.name} for @${userTag} (${userId}).`);
+                return;
+              }
+              await storeCheapDepositAudit(db, {
+                network: network.id,
+                userId: targetUserId,
+                moderatorId: userId,
+                action: unlinkWallet ? 'unlink' : 'reset',
+                reason: reason,
+              });
+              message = unlinkWallet ?
+                `The cheap deposits cooldown on ${network.name} was cleared and the wallet address was unlinked for ${targetUser.tag}.` :
+                `The cheap deposits cooldown on ${network.name} was cleared for ${targetUser.tag}.`;
+            } else {
+              const count = interaction.options.get('count', true).value as number;
+              await grantCheapDeposits(db, config, targetUserId, count);
+              await storeCheapDepositAudit(db, {
+                network: network.id,
+                userId: targetUserId,
+                moderatorId: userId,
+                action: 'grant',
+                count: count,
+                reason: reason,
+              });
+              message = `${targetUser.tag} can now do ${count} extra cheap deposits requests on ${network.name} during the cooldown.`;
+            }
+
+            console.log(`${message} Done by @${userTag} (${userId}) because: ${reason}`);
+            await interaction.reply({ content: `${message} Reason: ${reason}`, ephemeral: true });
+
+          } catch (error) {
+            console.log(`Error while using the ${commandName} command on ${targetUser.tag} (${targetUserId}) for @${userTag} (${userId}). ${error}`);
+            console.log(error);
+            await interaction.reply({ content: `Error while using the ${commandName} command for ${userMen}. ${error}`, ephemeral: true });
+          }
+
+        } else if (commandName === 'participation-mainnet') {
+          console.log(`${commandName} from ${userTag} (${userId})`);
+
+          const response = participationRateResponse(userTag, userId);
+          await interaction.reply(responseMessage(response, userMen));
+
+        } else if (commandName === 'participation-history') {
+          const hours = interaction.options.get('hours', true).value as number;
+          console.log(`${commandName} for ${hours} hours from ${userTag} (${userId})`);
+
+          const since = Math.floor(DateTime.utc().minus({ hours: hours }).toMillis() / 1000);
+          let entries;
+          try {
+            entries = await getParticipationHistory(db, 'Mainnet', since);
+          } catch (error) {
+            await interaction.reply({
+              content: `Unable to get the participation rate history for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false }
+            });
+            reject(`Unable to get the participation rate history for @${userTag} (${userId}). ${error}`);
+            return;
+          }
+
+          const summary = summarizeParticipationHistory(entries);
+          if (summary === null) {
+            await interaction.reply({
+              content: `We don't have any participation rate recorded on Mainnet in the last ${hours} hours for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false }
+            });
+            resolve();
+            return;
+          }
+
+          await interaction.reply({
+            content: `Participation rate on Mainnet over the last ${hours} hours (epochs ${summary.firstEpoch} to ${summary.lastEpoch}, ${summary.count} epochs) for ${userMen}:\n` +
+              `- Minimum: **${formatParticipationRate(summary.min.targetRate)}** (epoch ${summary.min.epoch})\n` +
+              `- Average: **${formatParticipationRate(summary.average)}**\n` +
+              `- Maximum: **${formatParticipationRate(summary.max.targetRate)}** (epoch ${summary.max.epoch})\n` +
+              `\`${summary.sparkline}\``,
+            allowedMentions: { parse: ['users'], repliedUser: false }
+          });
+
+        } else if (commandName === 'queue-history') {
+          const days = interaction.options.get('days', true).value as number;
+          const networkId = (interaction.options.get('network')?.value as string | undefined) ?? 'mainnet';
+          console.log(`${commandName} for ${days} days on ${networkId} from ${userTag} (${userId})`);
+
+          const network = networks.find((network) => network.id === networkId);
+          if (network === undefined) {
+            await interaction.reply({
+              content: `We don't know the ${networkId} network so we cannot show its queue history for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false },
+              ephemeral: true
+            });
+            reject(`Unknown network ${networkId} for the queue history for @${userTag} (${userId}).`);
+            return;
+          }
+          const since = Math.floor(DateTime.utc().minus({ days: days }).toMillis() / 1000);
+          let entries;
+          try {
+            entries = await getQueueHistory(db, network.id, since);
+          } catch (error) {
+            await interaction.reply({
+              content: `Unable to get the queue history for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false }
+            });
+            reject(`Unable to get the queue history for @${userTag} (${userId}). ${error}`);
+            return;
+          }
+
+          const summary = summarizeQueueHistory(entries);
+          if (summary === null) {
+            await interaction.reply({
+              content: `We don't have any queue sample recorded on ${network.name} in the last ${days} days for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false }
+            });
+            resolve();
+            return;
+          }
+
+          const response = queueHistoryResponse(network, days, summary);
+          console.log(`Queue history for @${userTag} (${userId})\n${responseText(response)}`);
+          await interaction.reply(responseMessage(response, userMen));
+
+        } else if (commandName === 'chain-health') {
+          const epochCount = (interaction.options.get('epochs')?.value as number | undefined) ?? 10;
+          console.log(`${commandName} for ${epochCount} epochs from ${userTag} (${userId})`);
+
+          const chainHealth = beaconMonitors.get('mainnet')?.chainHealth;
+          const summary = chainHealth !== undefined && chainHealth.lastSlot !== null ?
+            summarizeChainHealth(chainHealth, Math.floor(chainHealth.lastSlot / SLOTS_PER_EPOCH), epochCount) : null;
+          if (summary === null) {
+            await interaction.reply({
+              content: `We don't have any finished epoch tracked on Mainnet yet. It should be available in a few minutes if you want to retry for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false }
+            });
+            resolve();
+            return;
+          }
+
+          const shownMissedSlots = summary.missedSlots.slice(-10).join(', ');
+          const missedSlotsPart = summary.missedSlots.length > 0 ?
+            ` Last missed slots: ${shownMissedSlots}${summary.missedSlots.length > 10 ? ' [...]' : ''}.` : '';
+          const reorgsPart = summary.deepestReorg !== null ?
+            `**${summary.reorgs.length}** reorgs, the deepest was **${summary.deepestReorg.depth}** slots at slot ${summary.deepestReorg.slot}.` :
+            'No reorg.';
+
+          await interaction.reply({
+            content: `Chain health on Mainnet for epochs ${summary.firstEpoch} to ${summary.lastEpoch} (${summary.epochCount} epochs) for ${userMen}:\n` +
+              `- **${summary.missedSlots.length}** missed slots out of ${summary.observedSlots} (${formatParticipationRate(summary.missedRate)}).${missedSlotsPart}\n` +
+              `- ${reorgsPart}`,
+            allowedMentions: { parse: ['users'], repliedUser: false }
+          });
+
+        } else if (commandName === 'slashings') {
+          const count = (interaction.options.get('count')?.value as number | undefined) ?? 10;
+          console.log(`${commandName} for ${count} events from ${userTag} (${userId})`);
+
+          let slashings: Array<storedSlashingEvent>;
+          try {
+            slashings = await getRecentSlashingEvents(db, count);
+          } catch (error) {
+            await interaction.reply({
+              content: `Unable to get the recent slashings for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false }
+            });
+            reject(`Unable to get the recent slashings for @${userTag} (${userId}). ${error}`);
+            return;
+          }
+
+          const content = slashings.length > 0 ?
+            `Recent slashings for ${userMen}:\n${slashings.map(formatSlashingEvent).join('\n')}` :
+            `We have not seen any slashing yet for ${userMen}.`;
+          await interaction.reply({
+            content: content.slice(0, 2000),
+            allowedMentions: { parse: ['users'], repliedUser: false }
+          });
+
+        } else if (commandName === 'validator') {
+          const validatorId = (interaction.options.get('index_or_pubkey', true).value as string).trim();
+          const networkId = (interaction.options.get('network')?.value as string | undefined) ?? 'mainnet';
+          console.log(`${commandName} for ${validatorId} on ${networkId} from ${userTag} (${userId})`);
+
+          const monitor = beaconMonitors.get(networkId);
+          if (monitor === undefined) {
+            await interaction.reply({
+              content: `We are not following ${networkId} with a beacon node so we cannot look up validators there for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false },
+              ephemeral: true
+            });
+            reject(`No beacon node for ${networkId} to look up a validator for @${userTag} (${userId}).`);
+            return;
+          }
+          const network = monitor.network;
+
+          if (!/^\d+$/.test(validatorId) && !/^0x[0-9a-fA-F]{96}$/.test(validatorId)) {
+            await interaction.reply({
+              content: `The validator provided (${validatorId}) is not a valid validator index or pubkey for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false },
+              ephemeral: true
+            });
+            reject(`Invalid validator ${validatorId} for @${userTag} (${userId}).`);
+            return;
+          }
+
+          try {
+            await interaction.reply({ content: `Looking up validator ${validatorId} on ${network.name}...` });
+
+            const validator = await beaconNodeRequest(monitor.beaconNodes, (endpoint) => fetchValidatorDetails(endpoint, 'head', validatorId))
+            .catch((error) => {
+              if (axios.isAxiosError(error) && error.response?.status === 404) {
+                return null;
+              }
+              throw error;
+            });
+            if (validator === null) {
+              await interaction.editReply(`We could not find validator ${validatorId} on ${network.name} for ${userMen}.`);
+              reject(`Validator ${validatorId} not found on ${network.name} for @${userTag} (${userId}).`);
+              return;
+            }
+
+            const headSlot = await beaconNodeRequest(monitor.beaconNodes, (endpoint) => fetchHeadSlot(endpoint));
+            const headEpoch = Math.floor(headSlot / SLOTS_PER_EPOCH);
+
+            const embed = new EmbedBuilder()
+              .setTitle(`Validator ${validator.index} on ${network.name}`)
+              .setURL(`${network.validatorRoot}${validator.index}`)
+              .setDescription(`\`${validator.pubkey}\``)
+              .addFields(
+                { name: 'Status', value: `${validator.status}${validator.slashed ? ' (slashed)' : ''}`, inline: true },
+                { name: 'Balance', value: `${ethers.formatUnits(validator.balance, 'gwei')} ETH`, inline: true },
+                { name: 'Effective balance', value: `${ethers.formatUnits(validator.effectiveBalance, 'gwei')} ETH`, inline: true },
+                { name: 'Activation epoch', value: formatValidatorEpoch(validator.activationEpoch, headEpoch), inline: true },
+                { name: 'Exit epoch', value: formatValidatorEpoch(validator.exitEpoch, headEpoch), inline: true },
+                { name: 'Withdrawable epoch', value: formatValidatorEpoch(validator.withdrawableEpoch, headEpoch), inline: true },
+                { name: 'Withdrawal credentials', value: withdrawalCredentialsDescription(validator.withdrawalCredentials) },
+              );
+
+            if (validator.status.startsWith('pending')) {
+              const activationEstimate = await estimateValidatorActivation(network, validator, headEpoch).catch((error) => {
+                console.log(`Unable to estimate the activation for validator ${validator.index} on ${network.name}. ${error}`);
+                return null;
+              });
+              if (activationEstimate !== null) {
+                embed.addFields({ name: 'Estimated activation', value: activationEstimate });
+              }
+            }
+
+            await interaction.editReply({ content: `Validator details for ${userMen}`, embeds: [embed], allowedMentions: { parse: ['users'], repliedUser: false } });
+
+          } catch (error) {
+            console.log(`Error while trying to look up validator ${validatorId} on ${network.name} for @${userTag} (${userId}). ${error}`);
+            console.log(error);
+            await interaction.followUp({ content: `Error while trying to look up validator ${validatorId} on ${network.name} for ${userMen}. ${error}`, ephemeral: true });
+          }
+
+        } else if (commandName === 'queue-position') {
+          const validatorId = (interaction.options.get('index_or_pubkey', true).value as string).trim();
+          const networkId = (interaction.options.get('network')?.value as string | undefined) ?? 'mainnet';
+          console.log(`${commandName} for ${validatorId} on ${networkId} from ${userTag} (${userId})`);
+
+          const monitor = beaconMonitors.get(networkId);
+          if (monitor === undefined) {
+            await interaction.reply({
+              content: `We are not following ${networkId} with a beacon node so we cannot find queue positions there for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false },
+              ephemeral: true
+            });
+            reject(`No beacon node for ${networkId} to find a queue position for @${userTag} (${userId}).`);
+            return;
+          }
+          const network = monitor.network;
+
+          if (!/^\d+$/.test(validatorId) && !/^0x[0-9a-fA-F]{96}$/.test(validatorId)) {
+            await interaction.reply({
+              content: `The validator provided (${validatorId}) is not a valid validator index or pubkey for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false },
+              ephemeral: true
+            });
+            reject(`Invalid validator ${validatorId} for @${userTag} (${userId}).`);
+            return;
+          }
+
+          try {
+            await interaction.reply({ content: `Looking up the queue position of validator ${validatorId} on ${network.name}...` });
+
+            const validator = await beaconNodeRequest(monitor.beaconNodes, (endpoint) => fetchValidatorDetails(endpoint, 'head', validatorId))
+            .catch((error) => {
+              if (axios.isAxiosError(error) && error.response?.status === 404) {
+                return null;
+              }
+              throw error;
+            });
+
+            const positionMessage = await validatorQueuePositionMessage(monitor, validatorId, validator);
+            if (positionMessage === null) {
+              await interaction.editReply(`We could not find validator ${validatorId} or a pending deposit for it on ${network.name} for ${userMen}.`);
+              reject(`Validator ${validatorId} not found in the ${network.name} queue for @${userTag} (${userId}).`);
+              return;
+            }
+
+            console.log(`Queue position for ${validatorId} on ${network.name} for @${userTag} (${userId}): ${positionMessage}`);
+            await interaction.editReply({ content: `${positionMessage} Requested by ${userMen}.`, allowedMentions: { parse: ['users'], repliedUser: false } });
+
+          } catch (error) {
+            console.log(`Error while trying to find the queue position of validator ${validatorId} on ${network.name} for @${userTag} (${userId}). ${error}`);
+            console.log(error);
+            await interaction.followUp({ content: `Error while trying to find the queue position of validator ${validatorId} on ${network.name} for ${userMen}. ${error}`, ephemeral: true });
+          }
+
+        } else if (commandName === 'watch-validator' || commandName === 'unwatch-validator') {
+          const validatorId = (interaction.options.get('index_or_pubkey', true).value as string).trim();
+          const networkId = (interaction.options.get('network')?.value as string | undefined) ?? 'mainnet';
+          const watching = commandName === 'watch-validator';
+          console.log(`${commandName} for ${validatorId} on ${networkId} from ${userTag} (${userId})`);
+
+          const monitor = beaconMonitors.get(networkId);
+          if (monitor === undefined) {
+            await interaction.reply({
+              content: `We are not following ${networkId} with a beacon node so we cannot watch validators there for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false },
+              ephemeral: true
+            });
+            reject(`No beacon node for ${networkId} to ${commandName} for @${userTag} (${userId}).`);
+            return;
+          }
+          const network = monitor.network;
+
+          if (!/^\d+$/.test(validatorId) && !/^0x[0-9a-fA-F]{96}$/.test(validatorId)) {
+            await interaction.reply({
+              content: `The validator provided (${validatorId}) is not a valid validator index or pubkey for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false },
+              ephemeral: true
+            });
+            reject(`Invalid validator ${validatorId} for @${userTag} (${userId}).`);
+            return;
+          }
+
+          try {
+            const watches = await getUserValidatorWatches(db, userId);
+
+            if (!watching) {
+              const watch = watches.find((watch) => watch.network === network.id &&
+                (watch.validatorIndex.toString() === validatorId || watch.pubkey.toLowerCase() === validatorId.toLowerCase()));
+              const removed = watch !== undefined && await removeValidatorWatch(db, userId, network.id, watch.validatorIndex);
+              await interaction.reply({
+                content: removed ?
+                  `You are no longer watching validator **${watch?.validatorIndex}** on ${network.name} ${userMen}.` :
+                  `You were not watching validator ${validatorId} on ${network.name} ${userMen}.`,
+                allowedMentions: { parse: ['users'], repliedUser: false },
+                ephemeral: true
+              });
+              resolve();
+              return;
+            }
+
+            if (watches.length >= maxValidatorWatchesPerUser) {
+              await interaction.reply({
+                content: `You are already watching ${watches.length} validators which is the limit. Use /unwatch-validator first for ${userMen}.\n${watches.map(formatValidatorWatch).join('\n')}`,
+                allowedMentions: { parse: ['users'], repliedUser: false },
+                ephemeral: true
+              });
+              reject(`Too many watched validators for @${userTag} (${userId}).`);
+              return;
+            }
+
+            await interaction.reply({ content: `Looking up validator ${validatorId} on ${network.name}...`, ephemeral: true });
+
+            const details = await beaconNodeRequest(monitor.beaconNodes, (endpoint) => fetchValidatorDetails(endpoint, 'head', validatorId))
+            .catch((error) => {
+              if (axios.isAxiosError(error) && error.response?.status === 404) {
+                return null;
+              }
+              throw error;
+            });
+            if (details === null) {
+              await interaction.editReply(`We could not find validator ${validatorId} on ${network.name}.`);
+              reject(`Validator ${validatorId} not found on ${network.name} for @${userTag} (${userId}).`);
+              return;
+            }
+
+            const added = await addValidatorWatch(db, userId, network.id, details.index, details.pubkey, details.status);
+            const watchedCount = watches.length + (added ? 1 : 0);
+            await interaction.editReply(added ?
+              `You are now watching validator **${details.index}** on ${network.name} (${details.status}). ` +
+              `I will send you a direct message when it misses an attestation or a proposal, gets slashed or exits. ` +
+              `You are watching ${watchedCount} of ${maxValidatorWatchesPerUser} validators.` :
+              `You were already watching validator **${details.index}** on ${network.name}.`);
+
+          } catch (error) {
+            console.log(`Error while trying to ${commandName} ${validatorId} for @${userTag} (${userId}). ${error}`);
+            console.log(error);
+            const content = `Error while trying to update your watched validators for ${userMen}. ${error}`;
+            if (interaction.replied) {
+              await interaction.followUp({ content: content, ephemeral: true });
+            } else {
+              await interaction.reply({ content: content, ephemeral: true });
+            }
+          }
+
+        } else if (faucetCommandsConfig.has(commandName)) {
+          let targetAddress = interaction.options.get('address', true).value as string;
+          console.log(`${commandName} from ${userTag} (${userId}) to ${targetAddress}!`);
+
+          const config = faucetCommandsConfig.get(commandName) as networkConfig;
+          const channelName = config.channel;
+          const transactionMutex = config.transactionMutex;
+
+          if (channelName !== undefined && channelName !== '') {
+            const restrictChannel = interaction.guild?.channels.cache.find((channel) => channel.name === channelName);
+            if (restrictChannel !== undefined) {
+              if (interaction.channelId !== restrictChannel.id) {
+                const channelMen = channelMention(restrictChannel.id);
+                await interaction.reply({
+                  content: `This is the wrong channel for this bot command (${commandName}). You should try in ${channelMen} for ${userMen}.`,
+                  allowedMentions: { parse: ['users'], repliedUser: false }
+                });
+                reject(`This is the wrong channel for this bot command (${commandName}). You should try in #${restrictChannel.name} for @${userTag} (${userId}).`);
+                return;
+              }
+            }
+          }
+
+          // mutex on userId
+          const existingRequest = config.existingRequest;
+
+          if (existingRequest.get(userId) === true) {
+            await interaction.reply({
+              content: `You already have a pending request. Please wait until your request is completed for ${userMen}.`,
+              allowedMentions: { parse: ['users'], repliedUser: false }
+            });
+            reject(`You already have a pending request. Please wait until your request is completed for @${userTag} (${userId}).`);
+            return;
+          } else {
+            existingRequest.set(userId, true);
+          }
+
+          try {
+
+            const userCreatedAt = interaction.user.createdTimestamp;
+            const userExistDuration = DateTime.utc().toMillis() - userCreatedAt;
+
+            const memberJoinedAt = (interaction.member as GuildMember).joinedTimestamp;
+            const memberDuration = DateTime.utc().toMillis() - (memberJoinedAt as number);
+
+            // Check for new accounts
+            await interaction.reply({ content: 'Checking if you have a new account...', ephemeral: true });
+            if (userExistDuration < newAccountDelay.toMillis()) {
+              await interaction.followUp({
+                content: `Your Discord account was just created. We need to ` +
+                        `restrict access for this command (${commandName}) for new accounts ` +
+                        `because of abuses. ` +
+                        `Please try again in a few days for ${userMen}.`,
+              });
+              reject(`Your Discord account was just created. We need to restrict access for new accounts because of abuses. Please try again in a few days for ${userTag} (${userId})`);
+              return;
+            }
+
+            // Check for new guild member
+            await interaction.editReply({
+              content: `Checking if you recently joined the EthStaker Discord server...`
+            });
+            if (memberDuration < joinedDiscordServerDelay.toMillis()) {
+              await interaction.followUp({
+                content: `You just joined the EthStaker Discord server. We need to ` +
+                        `restrict access for this command (${commandName}) for members ` +
+                        `who just joined because of abuses. ` +
+                        `Please try again in a few days for ${userMen}.`,
+              });
+              reject(`You just joined the EthStaker Discord server. We need to restrict access for members who just joined because of abuses. Please try again in a few days for ${userTag} (${userId})`);
               return;
             }
 
@@ -815,12 +1644,19 @@ const main = function() {
                 }
   
                 transaction = transaction as unknown as ethers.TransactionResponse;
+
+                await storeLedgerTransaction(db, FAUCET_TRANSACTION_TABLE, {
+                  userId: userId,
+                  walletAddress: targetAddress,
+                  network: network,
+                  amount: sendingAmount,
+                }, transaction);
   
                 const transactionHash = transaction.hash;
                 const explorerTxRoot = config.explorerTxRoot;
                 explorerTxURL = explorerTxRoot + transactionHash;
                 await interaction.editReply(`${ethers.formatEther(sendingAmount)} ${currency} have been sent to ${targetAddress}. Explore that transaction on ${explorerTxURL}. Waiting for 1 confirm...`);
-                await transaction.wait(1);
+                await confirmLedgerTransaction(db, FAUCET_TRANSACTION_TABLE, transaction);
               });
 
               await storeLastRequest(userId, targetAddress, tableName);
@@ -828,13 +1664,21 @@ const main = function() {
               await interaction.editReply(`Transaction confirmed with 1 block confirmation.`);
               
               const remainingRequests = (faucetBalance - sendingAmount) / requestAmount;
-              console.log(`${ethers.formatEther(sendingAmount)} ${currency} have been sent to ${targetAddress} for @${userTag} (${userId}).${newRequestPart}`);
-              console.log(`There are ${remainingRequests} remaining requests with the current balance.`);
-
-              await interaction.followUp({
-                content: `${ethers.formatEther(sendingAmount)} ${currency} have been sent to ${targetAddress} for ${userMen}.${newRequestPart} Explore that transaction on ${explorerTxURL}\n\nThere are ${remainingRequests} remaining requests with the current balance.`,
-                allowedMentions: { parse: ['users'], repliedUser: false },
-                flags: MessageFlags.SuppressEmbeds });
+              const response: commandResponse = {
+                title: `${ethers.formatEther(sendingAmount)} ${currency} sent on ${network}`,
+                description: newRequestPart.trim(),
+                url: explorerTxURL ?? undefined,
+                fields: [
+                  { name: 'Address', value: `\`${targetAddress}\`` },
+                  { name: 'Transaction', value: `[Explore that transaction](${explorerTxURL})`, inline: true },
+                  { name: 'Remaining requests', value: `${remainingRequests} with the current balance`, inline: true },
+                ],
+                severity: 'success',
+                source: `${network} faucet`,
+              };
+              console.log(`${responseText(response)}\nFor @${userTag} (${userId}).`);
+
+              await interaction.followUp(responseMessage(response, userMen));
 
             } catch (error) {
               console.log(`Error while trying to send ${ethers.formatEther(sendingAmount)} ${currency} to ${targetAddress} for @${userTag} (${userId}). ${error}`);
@@ -854,35 +1698,13 @@ const main = function() {
         } else if (queueCommandsConfig.has(commandName)) {
           console.log(`${commandName} from ${userTag} (${userId})`);
 
-          const config = queueCommandsConfig.get(commandName) as queueConfig;
-          const network = config.network;
-          const apiQueueUrl = config.apiQueueUrl;
+          const networkConfig = queueCommandsConfig.get(commandName) as networkDefinition;
+          const network = networkConfig.name;
 
           try {
-            await interaction.reply({ content: `Querying beaconcha.in API for ${network} queue details...`, ephemeral: true });
-            const response = await axios.get(apiQueueUrl);
-            if (response.status !== 200) {
-              await interaction.followUp(`Unexpected status code from querying beaconcha.in API for ${network} queue details. Status code ${response.status} for ${userMen}.`);
-              reject(`Unexpected status code from querying beaconcha.in API for ${network} queue details. Status code ${response.status} for @${userTag} (${userId}).`);
-              return;
-            }
-
-            interface queueResponse {
-              status: string,
-              data: {
-                beaconchain_entering: number,
-                beaconchain_exiting: number,
-                validatorscount?: number,
-              }
-            };
-
-            const queryResponse = response.data as queueResponse;
-
-            if (queryResponse.status !== "OK") {
-              await interaction.followUp(`Unexpected body status from querying beaconcha.in API for ${network} queue details. Body status ${queryResponse.status} for ${userMen}.`);
-              reject(`Unexpected body status from querying beaconcha.in API for ${network} queue details. Body status ${queryResponse.status} for @${userTag} (${userId}).`);
-              return;
-            }
+            await interaction.reply({ content: `Querying ${network} queue details...`, ephemeral: true });
+            const queue = await getValidatorQueue(networkConfig);
+            const validatorsCount = queue.activeValidators ?? undefined;
 
             const activationNormalProcessingMsg = 'It should only take 16-24 hours for a new deposit to be processed and an associated validator to be activated.';
             const activationNormalProcessingMaxDuration = Duration.fromObject({ hours: 24 });
@@ -890,52 +1712,92 @@ const main = function() {
             let activationQueueMessage = `The **activation queue** is empty. ${activationNormalProcessingMsg}`;
             let exitQueueMessage = 'The **exit queue** is empty. It should only take a few minutes for a validator to leave the exit queue. The exit queue is only a small part of the full exit / withdrawal process. See [this diagram](https://files.ethstaker.cc/exit-process.png) for more details.';
 
-            if (queryResponse.data.beaconchain_entering > 0) {
-              const activationChurnLimit = get_validator_activation_churn_limit(network, queryResponse.data.validatorscount);
-              const activationChurnPerDay = churn_limit_per_day(activationChurnLimit);
+            const queueNotes: Array<string> = [];
+
+            if (queue.balances !== null) {
+              const balances = queue.balances;
+              const estimate = estimateElectraQueue(balances);
+              const churnPerEpoch = formatGweiAsEth(estimate.activationExitChurnGwei);
+              const churnPerDay = formatGweiAsEth(estimate.activationExitChurnGwei * BigInt(EPOCHS_PER_DAY));
+              const churnText = `(churn limit is ${churnPerEpoch} ETH per epoch or ${churnPerDay} ETH per day with ${formatGweiAsEth(balances.totalActiveGwei)} ETH staked)`;
 
-              const activationChurnText = `(churn limit is ${activationChurnLimit} per epoch or ${activationChurnPerDay} per day with ${queryResponse.data.validatorscount} validators)`;
+              if (balances.enteringGwei > BigInt(0)) {
+                const activationDuration = queue_duration(estimate.activationEpochs / EPOCHS_PER_DAY);
+                const formattedActivationDuration = activationDuration.toHuman();
+                const depositsText = `**${formatGweiAsEth(balances.enteringGwei)} ETH in ${balances.pendingDeposits} pending deposits**`;
 
-              const activationDays = queryResponse.data.beaconchain_entering / activationChurnPerDay;
-              let activationDuration = Duration.fromObject({ days: activationDays }).shiftTo('days', 'hours').normalize();
-              if (activationDuration.days === 0) {
-                activationDuration = activationDuration.shiftTo('hours', 'minutes');
+                if (activationDuration.toMillis() <= activationNormalProcessingMaxDuration.toMillis()) {
+                  activationQueueMessage = `There are ${depositsText} awaiting to be processed. The deposit queue should clear out in ${formattedActivationDuration} if there is no new deposit ${churnText}. ${activationNormalProcessingMsg}`;
+                } else {
+                  activationQueueMessage = `There are ${depositsText} awaiting to be processed. It should take at least ${formattedActivationDuration} for a new deposit to be processed and an associated validator to be activated ${churnText}.`;
+                }
               }
-              const formattedActivationDuration = activationDuration.toHuman();
+              if (balances.exitingGwei > BigInt(0)) {
+                const formattedExitDuration = queue_duration(estimate.exitEpochs / EPOCHS_PER_DAY).toHuman();
+                const partialWithdrawalsText = balances.pendingPartialWithdrawals ? ` and ${balances.pendingPartialWithdrawals} partial withdrawals` : '';
 
-              if (activationDuration.toMillis() <= activationNormalProcessingMaxDuration.toMillis()) {
-                activationQueueMessage = `There are **${queryResponse.data.beaconchain_entering} validators awaiting to be activated**. The queue should clear out in ${formattedActivationDuration} if there is no new deposit ${activationChurnText}. ${activationNormalProcessingMsg}`;
-              } else {
-                activationQueueMessage = `There are **${queryResponse.data.beaconchain_entering} validators awaiting to be activated**. It should take at least ${formattedActivationDuration} for a new deposit to be processed and an associated validator to be activated ${activationChurnText}.`;
+                exitQueueMessage = `There are **${formatGweiAsEth(balances.exitingGwei)} ETH awaiting to exit** the network from ${queue.exiting} validators${partialWithdrawalsText}. It should take at least ${formattedExitDuration} for a voluntary exit to be processed and an associated validator to leave the exit queue ${churnText}. The exit queue is only a small part of the full exit / withdrawal process. See [this diagram](https://files.ethstaker.cc/exit-process.png) for more details.`;
               }
-            }
-            if (queryResponse.data.beaconchain_exiting > 0) {
-              const exitChurnLimit = validator_churn_limit(queryResponse.data.validatorscount);
-              const exitChurnPerDay = churn_limit_per_day(exitChurnLimit);
 
-              const exitChurnText = `(churn limit is ${exitChurnLimit} per epoch or ${exitChurnPerDay} per day with ${queryResponse.data.validatorscount} validators)`;
+              if (balances.pendingConsolidations) {
+                const consolidationChurnPerDay = formatGweiAsEth(estimate.consolidationChurnGwei * BigInt(EPOCHS_PER_DAY));
+                queueNotes.push(`There are **${balances.pendingConsolidations} pending consolidations**. They have their own churn limit of ${formatGweiAsEth(estimate.consolidationChurnGwei)} ETH per epoch or ${consolidationChurnPerDay} ETH per day.`);
+              }
+              if (balances.approximate) {
+                queueNotes.push('Balances are estimated at 32 ETH per validator since beaconcha.in does not report them.');
+              }
+            } else {
+              if (queue.entering > 0) {
+                const activationChurnLimit = get_validator_activation_churn_limit(network, validatorsCount);
+                const activationChurnPerDay = churn_limit_per_day(activationChurnLimit);
 
-              const exitDays = queryResponse.data.beaconchain_exiting / exitChurnPerDay;
-              let exitDuration = Duration.fromObject({ days: exitDays }).shiftTo('days', 'hours').normalize();
-              if (exitDuration.days === 0) {
-                exitDuration = exitDuration.shiftTo('hours', 'minutes');
+                const activationChurnText = `(churn limit is ${activationChurnLimit} per epoch or ${activationChurnPerDay} per day with ${validatorsCount} validators)`;
+
+                const activationDays = queue.entering / activationChurnPerDay;
+                const activationDuration = queue_duration(activationDays);
+                const formattedActivationDuration = activationDuration.toHuman();
+
+                if (activationDuration.toMillis() <= activationNormalProcessingMaxDuration.toMillis()) {
+                  activationQueueMessage = `There are **${queue.entering} validators awaiting to be activated**. The queue should clear out in ${formattedActivationDuration} if there is no new deposit ${activationChurnText}. ${activationNormalProcessingMsg}`;
+                } else {
+                  activationQueueMessage = `There are **${queue.entering} validators awaiting to be activated**. It should take at least ${formattedActivationDuration} for a new deposit to be processed and an associated validator to be activated ${activationChurnText}.`;
+                }
               }
-              const formattedExitDuration = exitDuration.toHuman();
+              if (queue.exiting > 0) {
+                const exitChurnLimit = validator_churn_limit(validatorsCount);
+                const exitChurnPerDay = churn_limit_per_day(exitChurnLimit);
+
+                const exitChurnText = `(churn limit is ${exitChurnLimit} per epoch or ${exitChurnPerDay} per day with ${validatorsCount} validators)`;
 
-              exitQueueMessage = `There are **${queryResponse.data.beaconchain_exiting} validators awaiting to exit** the network. It should take at least ${formattedExitDuration} for a voluntary exit to be processed and an associated validator to leave the exit queue ${exitChurnText}. The exit queue is only a small part of the full exit / withdrawal process. See [this diagram](https://files.ethstaker.cc/exit-process.png) for more details.`;
+                const exitDays = queue.exiting / exitChurnPerDay;
+                const exitDuration = queue_duration(exitDays);
+                const formattedExitDuration = exitDuration.toHuman();
+
+                exitQueueMessage = `There are **${queue.exiting} validators awaiting to exit** the network. It should take at least ${formattedExitDuration} for a voluntary exit to be processed and an associated validator to leave the exit queue ${exitChurnText}. The exit queue is only a small part of the full exit / withdrawal process. See [this diagram](https://files.ethstaker.cc/exit-process.png) for more details.`;
+              }
             }
 
-            console.log(`Current queue details for ${network} for @${userTag} (${userId})\n\n- ${activationQueueMessage}\n- ${exitQueueMessage}`);
+            // A queue taking more than a week is worth highlighting
+            const waitDays = validatorQueueWaitDays(networkConfig, queue);
+            const response: commandResponse = {
+              title: `Validator queues on ${network}`,
+              fields: [
+                { name: 'Activation queue', value: activationQueueMessage },
+                { name: 'Exit queue', value: exitQueueMessage },
+                ...queueNotes.map((note) => ({ name: 'Note', value: note })),
+              ],
+              severity: Math.max(waitDays.activation, waitDays.exit) > 7 ? 'warning' : 'info',
+              source: `${queue.source === 'beacon node' ? 'our beacon node' : 'beaconcha.in API'} at epoch ${queue.epoch}`,
+            };
+
+            console.log(`Current queue details for @${userTag} (${userId})\n${responseText(response)}`);
+
+            await interaction.followUp(responseMessage(response, userMen));
 
-            await interaction.followUp({
-              content: `Current queue details for **${network}** for ${userMen}\n\n- ${activationQueueMessage}\n- ${exitQueueMessage}`,
-              allowedMentions: { parse: ['users'], repliedUser: false },
-              flags: MessageFlags.SuppressEmbeds });
-            
           } catch (error) {
-            console.log(`Error while trying to query beaconcha.in API for ${network} queue details for @${userTag} (${userId}). ${error}`);
+            console.log(`Error while trying to get ${network} queue details for @${userTag} (${userId}). ${error}`);
             console.log(error);
-            await interaction.followUp(`Error while trying to query beaconcha.in API for ${network} queue details for ${userMen}. ${error}`);
+            await interaction.followUp(`Error while trying to get ${network} queue details for ${userMen}. ${error}`);
           }
 
         } else if (commandName === 'sepolia-eth-msg') {
@@ -958,10 +1820,12 @@ const main = function() {
             flags: MessageFlags.SuppressEmbeds
           });
 
-        } else if (commandName === 'hoodi-msg') {
+        } else if (msgCommandsConfig.has(commandName)) {
           console.log(`${commandName} from ${userTag} (${userId})`);
 
-          const cheapHoodiValidatorMention = channelMention(process.env.CHEAP_HOODI_VALIDATOR_CHANNEL_ID as string);
+          const network = msgCommandsConfig.get(commandName) as networkDefinition;
+          const cheapDeposit = network.cheapDeposit as cheapDepositNetworkDefinition;
+          const cheapValidatorMention = channelMention(cheapDeposit.channelId as string);
 
           let targetUser = 'You';
 
@@ -971,13 +1835,13 @@ const main = function() {
           }
 
           const msg = (
-            `If you want to perform your Hoodi validator deposit, use ` +
-            `${cheapHoodiValidatorMention} and the \`/cheap-hoodi-deposit\` slash command ` +
+            `If you want to perform your ${network.name} validator deposit, use ` +
+            `${cheapValidatorMention} and the \`/${cheapDepositCommandName(network)}\` slash command ` +
             `(start typing the command and it will show up above your input box). This process ` +
-            `will not directly give you any meaningful amount of Hoodi ETH, but it will ` +
-            `enable you to become a validator on Hoodi for free. If you need ` +
-            `Hoodi ETH for any purpose, check out this great online faucet on ` +
-            `<https://hoodi-faucet.pk910.de/> for ${targetUser}.`
+            `will not directly give you any meaningful amount of ${network.name} ETH, but it will ` +
+            `enable you to become a validator on ${network.name} for free. If you need ` +
+            `${network.name} ETH for any purpose, check out this great online faucet on ` +
+            `<${cheapDeposit.faucetUrl}/> for ${targetUser}.`
             );
           
           interaction.reply({
@@ -1033,11 +1897,15 @@ const main = function() {
             ephemeral: true
           });
 
-        } else if (commandName === 'cheap-hoodi-deposit') {
+        } else if (cheapDepositCommandsConfig.has(commandName)) {
           console.log(`${commandName} from ${userTag} (${userId})`);
 
+          const config = cheapDepositCommandsConfig.get(commandName) as cheapDepositConfig;
+          const network = config.network;
+          const cheapDeposit = config.cheapDeposit;
+
           // Restrict command to channel
-          const restrictChannel = interaction.guild?.channels.cache.find((channel) => channel.id === process.env.CHEAP_HOODI_VALIDATOR_CHANNEL_ID);
+          const restrictChannel = interaction.guild?.channels.cache.find((channel) => channel.id === cheapDeposit.channelId);
           if (restrictChannel !== undefined) {
             if (interaction.channelId !== restrictChannel.id) {
               const channelMen = channelMention(restrictChannel.id);
@@ -1059,7 +1927,7 @@ const main = function() {
 
           // Check for user role
           await interaction.reply({ content: 'Checking if you have the proper role to speed up delay period...', ephemeral: true });
-          const hasRole = restrictedRoles.size === 0 || (interaction.member?.roles as GuildMemberRoleManager).cache.find((role) => restrictedRoles.has(role.id)) !== undefined;
+          const hasRole = isVerified(userId, memberRoleIds(interaction));
           if (!hasRole) {
             const brightIdMention = channelMention(process.env.BRIGHTID_VERIFICATION_CHANNEL_ID as string);
             const passportVerificationMention = channelMention(process.env.PASSPORT_CHANNEL_ID as string);
@@ -1076,14 +1944,14 @@ const main = function() {
                         `by completing one of the verification processes in ` +
                         `${brightIdMention} or in ${passportVerificationMention}. ` +
                         `If you need ` +
-                        `Hoodi ETH, you should be using online faucets like ` +
-                        `the one you can find on <https://hoodi-faucet.pk910.de>. ` +
+                        `${network.name} ETH, you should be using online faucets like ` +
+                        `the one you can find on <${cheapDeposit.faucetUrl}>. ` +
                         `If you already have ` +
-                        `32 Hoodi ETH, you can use the official launchpad on ` +
-                        `<https://hoodi.launchpad.ethereum.org>.\n` +
+                        `32 ${network.name} ETH, you can use the official launchpad on ` +
+                        `<${cheapDeposit.officialLaunchpadUrl}>.\n` +
                         `New accounts generally do not come directly asking for cheap deposits. ` +
                         `You might want to check out the guides and tools that exist for configuring ` +
-                        `your machine to run a validator on Hoodi in ${officialLinksMen} first for ${userMen}.`,
+                        `your machine to run a validator on ${network.name} in ${officialLinksMen} first for ${userMen}.`,
               });
               reject(`Your Discord account was just created. We need to restrict access for new accounts because of abuses. Please try again in a few days for ${userTag} (${userId})`);
               return;
@@ -1101,14 +1969,14 @@ const main = function() {
                         `by completing one of the verification processes in ` +
                         `${brightIdMention} or in ${passportVerificationMention}. ` +
                         `If you need ` +
-                        `Hoodi ETH, you should be using online faucets like ` +
-                        `the one you can find on <https://hoodi-faucet.pk910.de>. ` +
+                        `${network.name} ETH, you should be using online faucets like ` +
+                        `the one you can find on <${cheapDeposit.faucetUrl}>. ` +
                         `If you already have ` +
-                        `32 Hoodi ETH, you can use the official launchpad on ` +
-                        `<https://hoodi.launchpad.ethereum.org>.\n` +
+                        `32 ${network.name} ETH, you can use the official launchpad on ` +
+                        `<${cheapDeposit.officialLaunchpadUrl}>.\n` +
                         `New members generally do not come directly asking for cheap deposits. ` +
                         `You might want to check out the guides and tools that exist for configuring ` +
-                        `your machine to run a validator on Hoodi in ${officialLinksMen} first for ${userMen}.`,
+                        `your machine to run a validator on ${network.name} in ${officialLinksMen} first for ${userMen}.`,
               });
               reject(`You just joined the EthStaker Discord server. We need to restrict access for members who just joined because of abuses. Please try again in a few days for ${userTag} (${userId})`);
               return;
@@ -1124,14 +1992,14 @@ const main = function() {
                 content: `Your Discord account was just created. We need to ` +
                         `restrict access for new accounts because of abuses. ` +
                         `Please try again in a few days. If you need ` +
-                        `Hoodi ETH, you should be using online faucets like ` +
-                        `the one you can find on <https://hoodi-faucet.pk910.de>. ` +
+                        `${network.name} ETH, you should be using online faucets like ` +
+                        `the one you can find on <${cheapDeposit.faucetUrl}>. ` +
                         `If you already have ` +
-                        `32 Hoodi ETH, you can use the official launchpad on ` +
-                        `<https://hoodi.launchpad.ethereum.org>.\n` +
+                        `32 ${network.name} ETH, you can use the official launchpad on ` +
+                        `<${cheapDeposit.officialLaunchpadUrl}>.\n` +
                         `New accounts generally do not come directly asking for cheap deposits. ` +
                         `You might want to check out the guides and tools that exist for configuring ` +
-                        `your machine to run a validator on Hoodi in ${officialLinksMen} first for ${userMen}.`,
+                        `your machine to run a validator on ${network.name} in ${officialLinksMen} first for ${userMen}.`,
               });
               reject(`Your verified Discord account was just created. We need to restrict access for new accounts because of abuses. Please try again in a few days for ${userTag} (${userId})`);
               return;
@@ -1146,14 +2014,14 @@ const main = function() {
                 content: `You just joined the EthStaker Discord server. We need to ` +
                         `restrict access for members who just joined because of abuses. ` +
                         `Please try again in a few days. If you need ` +
-                        `Hoodi ETH, you should be using online faucets like ` +
-                        `the one you can find on <https://hoodi-faucet.pk910.de>. ` +
+                        `${network.name} ETH, you should be using online faucets like ` +
+                        `the one you can find on <${cheapDeposit.faucetUrl}>. ` +
                         `If you already have ` +
-                        `32 Hoodi ETH, you can use the official launchpad on ` +
-                        `<https://hoodi.launchpad.ethereum.org>.\n` +
+                        `32 ${network.name} ETH, you can use the official launchpad on ` +
+                        `<${cheapDeposit.officialLaunchpadUrl}>.\n` +
                         `New members generally do not come directly asking for cheap deposits. ` +
                         `You might want to check out the guides and tools that exist for configuring ` +
-                        `your machine to run a validator on Hoodi in ${officialLinksMen} first for ${userMen}.`,
+                        `your machine to run a validator on ${network.name} in ${officialLinksMen} first for ${userMen}.`,
               });
               reject(`You just joined the EthStaker Discord server with verification. We need to restrict access for members who just joined because of abuses. Please try again in a few days for ${userTag} (${userId})`);
               return;
@@ -1165,11 +2033,11 @@ const main = function() {
           await interaction.editReply({
             content: 'Checking if you are rate-limited...'
           });
-          const lastRequest = await getLastCheapDepositHoodiRequest(userId);
+          const lastRequest = await getLastCheapDepositRequest(db, config, userId);
           let newRequestPart = '';
           if (lastRequest !== null) {
             const dtLastRequested = DateTime.fromMillis(lastRequest.lastRequested * 1000);
-            const dtRequestAvailable = dtLastRequested.plus(cheapDepositHoodiDelay);
+            const dtRequestAvailable = dtLastRequested.plus(cheapDeposit.delay);
 
             let durRequestAvailable = dtRequestAvailable.diff(DateTime.utc()).shiftTo('days', 'hours').normalize();
             if (durRequestAvailable.days === 0) {
@@ -1177,13 +2045,15 @@ const main = function() {
             }
             const formattedDuration = durRequestAvailable.toHuman();
 
-            if (DateTime.utc() < dtRequestAvailable) {
+            if (DateTime.utc() < dtRequestAvailable && lastRequest.grants === 0) {
               await interaction.followUp({
-                content: `You cannot do another request this soon. You will need to wait at least ${formattedDuration} before you can request again. If you already have 32 Hoodi ETH, you can use the official launchpad on <https://hoodi.launchpad.ethereum.org> for ${userMen}.`,
+                content: `You cannot do another request this soon. You will need to wait at least ${formattedDuration} before you can request again. If you already have 32 ${network.name} ETH, you can use the official launchpad on <${cheapDeposit.officialLaunchpadUrl}> for ${userMen}.`,
                 allowedMentions: { parse: ['users'], repliedUser: false }
               });
               reject(`You cannot do another request this soon. You will need to wait at least ${formattedDuration} before you can request again for @${userTag} (${userId}).`);
               return;
+            } else if (DateTime.utc() < dtRequestAvailable) {
+              newRequestPart = ` You are using one of the ${lastRequest.grants} extra requests granted by a moderator.`;
             } else {
               let negDurRequestAvailable = durRequestAvailable.negate().shiftTo('days', 'hours').normalize();
               if (negDurRequestAvailable.days === 0) {
@@ -1205,13 +2075,13 @@ const main = function() {
 
           const row = new ActionRowBuilder<ButtonBuilder>()
             .addComponents(new ButtonBuilder()
-              .setCustomId('sendSignatureForCheapDepositsHoodi')
+              .setCustomId(config.buttonCustomId)
               .setStyle(ButtonStyle.Primary)
               .setLabel('Enter Signature'));
 
           await interaction.editReply({
             content: `Click on [this Signer.is link](${signer_is_url}) and sign the requested message with the ` +
-                     `wallet address you want to use to perform your deposit on Hoodi to prove ` +
+                     `wallet address you want to use to perform your deposit on ${network.name} to prove ` +
                      `ownership. Once you are done signing, click the *Copy Link* button on Signer.is ` +
                      `and click the **Enter Signature** button to paste your signature URL.`,
             components: [row]
@@ -1232,9 +2102,6 @@ const main = function() {
       claimed_signatory: string
     }
 
-    const existingCheapDepositsHoodiUserRequest = new Map<string, boolean>();
-    const existingCheapDepositsHoodiWalletRequest = new Map<string, boolean>();
-
     const existingVerificationUserRequest = new Map<string, boolean>();
     const existingVerificationWalletRequest = new Map<string, boolean>();
 
@@ -1578,10 +2445,17 @@ const main = function() {
               
 
               if (passportScore < passportScoreThreshold) {
-                await interaction.followUp({
-                  content: `Your Gitcoin Passport score is too low (${formattedPassportScore} < ${passportScoreThreshold}). Keep adding stamps and try again. Stamps that give a better proof of your existance usually give a higher score for ${userMen}.`,
-                  allowedMentions: { parse: ['users'], repliedUser: false }
-                });
+                await interaction.followUp(responseMessage({
+                  title: 'Gitcoin Passport score too low',
+                  description: 'Keep adding stamps and try again. Stamps that give a better proof of your existance usually give a higher score.',
+                  fields: [
+                    { name: 'Score', value: formattedPassportScore, inline: true },
+                    { name: 'Required score', value: `${passportScoreThreshold}`, inline: true },
+                    { name: 'Wallet address', value: `\`${passportAddress}\`` },
+                  ],
+                  severity: 'warning',
+                  source: 'Gitcoin Passport scorer',
+                }, userMen));
                 reject(`Your Gitcoin Passport score is too low (${formattedPassportScore} < ${passportScoreThreshold}). Keep adding stamps and try again. Stamps that give a better proof of your existance usually give a higher score for @${userTag} (${userId}).`);
                 return;
               }
@@ -1598,10 +2472,20 @@ const main = function() {
 
               await interaction.editReply({ content: `Completed.` });
 
-              await interaction.followUp({
-                content: `You are now verified with Gitcoin Passport (score: ${formattedPassportScore}) with wallet address ${uniformedAddress} for ${userMen}.`,
-                allowedMentions: { parse: ['users'], repliedUser: false }
-              });
+              const response: commandResponse = {
+                title: 'Verified with Gitcoin Passport',
+                description: 'You now have the role associated with being verified with Gitcoin Passport.',
+                fields: [
+                  { name: 'Score', value: formattedPassportScore, inline: true },
+                  { name: 'Required score', value: `${passportScoreThreshold}`, inline: true },
+                  { name: 'Wallet address', value: `\`${uniformedAddress}\`` },
+                ],
+                severity: 'success',
+                source: 'Gitcoin Passport scorer',
+              };
+              console.log(`${responseText(response)}\nFor @${userTag} (${userId}).`);
+
+              await interaction.followUp(responseMessage(response, userMen));
 
             } finally {
               existingVerificationWalletRequest.delete(uniformedAddress);
@@ -1614,14 +2498,20 @@ const main = function() {
             existingVerificationUserRequest.delete(userId);
           }
 
-        } else if (interaction.customId === 'ownerCheapDepositsHoodiVerify') {
+        } else if (cheapDepositModalsConfig.has(interaction.customId)) {
+
+          const config = cheapDepositModalsConfig.get(interaction.customId) as cheapDepositConfig;
+          const network = config.network;
+          const cheapDeposit = config.cheapDeposit;
+          const existingCheapDepositsUserRequest = config.existingUserRequest;
+          const existingCheapDepositsWalletRequest = config.existingWalletRequest;
 
           // Check if the user already has been given cheap deposits recently.
-          const lastRequest = await getLastCheapDepositHoodiRequest(userId);
+          const lastRequest = await getLastCheapDepositRequest(db, config, userId);
           let newRequestPart = '';
           if (lastRequest !== null) {
             const dtLastRequested = DateTime.fromMillis(lastRequest.lastRequested * 1000);
-            const dtRequestAvailable = dtLastRequested.plus(cheapDepositHoodiDelay);
+            const dtRequestAvailable = dtLastRequested.plus(cheapDeposit.delay);
 
             let durRequestAvailable = dtRequestAvailable.diff(DateTime.utc()).shiftTo('days', 'hours').normalize();
             if (durRequestAvailable.days === 0) {
@@ -1629,13 +2519,15 @@ const main = function() {
             }
             const formattedDuration = durRequestAvailable.toHuman();
 
-            if (DateTime.utc() < dtRequestAvailable) {
+            if (DateTime.utc() < dtRequestAvailable && lastRequest.grants === 0) {
               await interaction.followUp({
                 content: `You cannot do another request this soon. You will need to wait at least ${formattedDuration} before you can request again for ${userMen}.`,
                 allowedMentions: { parse: ['users'], repliedUser: false }
               });
               reject(`You cannot do another request this soon. You will need to wait at least ${formattedDuration} before you can request again for @${userTag} (${userId}).`);
               return;
+            } else if (DateTime.utc() < dtRequestAvailable) {
+              newRequestPart = ` You are using one of the ${lastRequest.grants} extra requests granted by a moderator.`;
             } else {
               let negDurRequestAvailable = durRequestAvailable.negate().shiftTo('days', 'hours').normalize();
               if (negDurRequestAvailable.days === 0) {
@@ -1651,7 +2543,7 @@ const main = function() {
           }
 
           // Mutex on User ID
-          if (existingCheapDepositsHoodiUserRequest.get(userId) === true) {
+          if (existingCheapDepositsUserRequest.get(userId) === true) {
             await interaction.reply({
               content: `You already have a pending cheap deposits request. Please wait until your request is completed for ${userMen}.`,
               allowedMentions: { parse: ['users'], repliedUser: false }
@@ -1659,7 +2551,7 @@ const main = function() {
             reject(`You already have a pending cheap deposits request. Please wait until your request is completed for @${userTag} (${userId}).`);
             return;
           } else {
-            existingCheapDepositsHoodiUserRequest.set(userId, true);
+            existingCheapDepositsUserRequest.set(userId, true);
           }
 
           try {
@@ -1776,7 +2668,7 @@ const main = function() {
             // Mutex on wallet address
             const uniformedAddress = ethers.getAddress(decodedSignature.claimed_signatory);
 
-            if (existingCheapDepositsHoodiWalletRequest.get(uniformedAddress) === true) {
+            if (existingCheapDepositsWalletRequest.get(uniformedAddress) === true) {
               await interaction.followUp({
                 content: `There is already a pending cheap deposits request for this wallet address (${uniformedAddress}). Please wait until that request is completed for ${userMen}.`,
                 allowedMentions: { parse: ['users'], repliedUser: false }
@@ -1784,7 +2676,7 @@ const main = function() {
               reject(`There is already a pending cheap deposits request for this wallet address (${uniformedAddress}). Please wait until that request is completed for @${userTag} (${userId}).`);
               return;
             } else {
-              existingCheapDepositsHoodiWalletRequest.set(uniformedAddress, true);
+              existingCheapDepositsWalletRequest.set(uniformedAddress, true);
             }
 
             try {
@@ -1792,7 +2684,7 @@ const main = function() {
               // Verify if that wallet address is not already associated with another Discord user
               await interaction.editReply({ content: `Verifying if this wallet address was already used by another Discord user...` });
 
-              const walletAlreadyUsed = await isCheapDepositsHoodiWalletAlreadyUsed(uniformedAddress, userId);
+              const walletAlreadyUsed = await isCheapDepositWalletAlreadyUsed(db, config, uniformedAddress, userId);
 
               if (walletAlreadyUsed) {
                 await interaction.followUp({
@@ -1803,110 +2695,53 @@ const main = function() {
                 return;
               }
 
-              // Top up the proxy contract
-              await interaction.editReply({ content: `Ensuring there is enough funds on our contract...` });
-
-              const targetMultiplier = BigInt(minRelativeCheapDepositCount) * BigInt(cheapDepositCount);
-
-              const targetBalance = (validatorDepositCost * targetMultiplier) + (maxTransactionCost * targetMultiplier);
-              const currentContractBalance = await hoodiProvider.getBalance(depositProxyContractHoodiAddress);
-
-              if (targetBalance > currentContractBalance) {
-                const sendingAmount = targetBalance - currentContractBalance;
-
-                console.log(`Refilling proxy contract. Our target: ${ethers.formatEther(targetBalance)}, ` +
-                  `current balance: ${ethers.formatEther(currentContractBalance)}, ` +
-                  `sending amount: ${ethers.formatEther(sendingAmount)}`);
-
-                await hoodiTransactionMutex.runExclusive(async () => {
-                  const transaction = await hoodiWallet.sendTransaction({
-                    to: depositProxyContractHoodiAddress,
-                    value: sendingAmount
-                  });
-
-                  await transaction.wait(1);
-                });
-                
-              }
-
-              // Send tokens to user
-              await interaction.editReply({ content: `Whitelisting the wallet address for ${cheapDepositCount} cheap deposits...` });
-
-              const depositProxyContract = new ethers.Contract(depositProxyContractHoodiAddress, depositProxyContractAbi, hoodiWallet);
-              const targetTokenBalance = BigInt(cheapDepositCount);
-              const currentTokenBalance = await depositProxyContract.balanceOf(uniformedAddress, 0) as bigint;
-              if (currentTokenBalance < targetTokenBalance) {
-                const sendingAmount = targetTokenBalance - currentTokenBalance;
-
-                console.log(`Sending cheap deposits tokens to user (${uniformedAddress}). Our target: ${targetTokenBalance}, ` +
-                  `current balance: ${currentTokenBalance}, ` +
-                  `sending amount: ${sendingAmount}`);
-
-                await hoodiTransactionMutex.runExclusive(async () => {
-                  const transaction: ethers.TransactionResponse = await depositProxyContract.safeTransferFrom(
-                    hoodiWallet.address, uniformedAddress, 0, sendingAmount, Buffer.from(''));
-                  await transaction.wait(1);
-                });
-              }
-
-              // Top up user wallet
-              await interaction.editReply({ content: `Ensuring you have enough funds in that wallet for the ${cheapDepositCount} cheap deposits...` });
-
-              const targetWalletBalance = (cheapDepositCost * BigInt(cheapDepositCount)) + (maxTransactionCost * BigInt(cheapDepositCount));
-              const currentWalletBalance = await hoodiProvider.getBalance(uniformedAddress);
-
-              if (targetWalletBalance > currentWalletBalance) {
-                const sendingAmount = targetWalletBalance - currentWalletBalance;
-
-                console.log(`Filling user wallet (${uniformedAddress}). Our target: ${ethers.formatEther(targetWalletBalance)}, ` +
-                  `current balance: ${ethers.formatEther(currentWalletBalance)}, ` +
-                  `sending amount: ${ethers.formatEther(sendingAmount)}`);
-
-                await hoodiTransactionMutex.runExclusive(async () => {
-                  const transaction = await hoodiWallet.sendTransaction({
-                    to: uniformedAddress,
-                    value: sendingAmount
-                  });
-
-                  await transaction.wait(1);
-                });
-              } else {
-                console.log(`User wallet (${uniformedAddress}) is already funded. Our target: ${ethers.formatEther(targetWalletBalance)}, ` +
-                  `current balance: ${ethers.formatEther(currentWalletBalance)}`);
-              }
+              // Fund the proxy contract, whitelist the wallet address and top it up
+              await provisionCheapDeposits(db, config, userId, uniformedAddress, (message) => interaction.editReply({ content: message }));
 
               // Storing the wallet address for the cheap deposits
               await interaction.editReply({ content: `Storing your information...` });
 
-              await storeCheapDepositsHoodi(uniformedAddress, userId);
+              await storeCheapDeposit(db, config, uniformedAddress, userId);
 
               await interaction.editReply({ content: `Completed.` });
 
               const officialLinksMen = channelMention(process.env.OFFICIAL_LINKS_CHANNEL_ID as string);
 
-              await interaction.followUp({
-                content: `You can now perform ${cheapDepositCount} cheap deposits on <https://cheap.hoodi.launchpad.ethstaker.cc/> ` +
+              const response: commandResponse = {
+                title: `Cheap deposits ready on ${network.name}`,
+                url: cheapDeposit.launchpadUrl,
+                description: `You can now perform ${cheapDeposit.depositCount} cheap deposits on <${cheapDeposit.launchpadUrl}> ` +
                 `with your wallet address \`${uniformedAddress}\`. Make sure to check out the guides and tools for configuring your ` +
-                `machine to run a validator on Hoodi in ${officialLinksMen}.\n\nYou **must** set your withdrawal address to ` +
-                `\`0x4D496CcC28058B1D74B7a19541663E21154f9c84\` and use a type 1 (regular, non-compounding) validator ` +
+                `machine to run a validator on ${network.name} in ${officialLinksMen}.\n\nYou **must** set your withdrawal address to ` +
+                `\`${cheapDeposit.withdrawalAddress}\` and use a type 1 (regular, non-compounding) validator ` +
                 `when creating your validator keys and your deposit file in order ` +
                 `to use this process and to complete your deposit. This is only required for this launchpad. When on Mainnet, you ` +
                 `should use a withdrawal address you control if you want to use one.\n\nPerforming this deposit transaction ` +
-                `can cost more in gas than the actual cheap deposit cost of 0.0001 Hoodi ETH during time of high gas ` +
-                `price. If you end up in this situation, you can either try to obtain more Hoodi ETH from ` +
-                `<https://hoodi-faucet.pk910.de>, you can wait until gas price come down (see <https://hoodi.beaconcha.in/gasnow> ` +
-                `to monitor gas price on Hoodi) or you can broadcast your transaction with a custom low gas price and wait until ` +
-                `it is picked up by the network for ${userMen}.`,
-                allowedMentions: { parse: ['users'], repliedUser: false }
-              });
+                `can cost more in gas than the actual cheap deposit cost of ${ethers.formatEther(cheapDeposit.depositCost)} ${network.name} ETH during time of high gas ` +
+                `price. If you end up in this situation, you can either try to obtain more ${network.name} ETH from ` +
+                `<${cheapDeposit.faucetUrl}>, you can wait until gas price come down (see <${cheapDeposit.gasTrackerUrl}> ` +
+                `to monitor gas price on ${network.name}) or you can broadcast your transaction with a custom low gas price and wait until ` +
+                `it is picked up by the network.`,
+                fields: [
+                  { name: 'Wallet address', value: `\`${uniformedAddress}\`` },
+                  { name: 'Withdrawal address', value: `\`${cheapDeposit.withdrawalAddress}\`` },
+                  { name: 'Deposits', value: `${cheapDeposit.depositCount}`, inline: true },
+                  { name: 'Deposit cost', value: `${ethers.formatEther(cheapDeposit.depositCost)} ${network.name} ETH`, inline: true },
+                ],
+                severity: 'success',
+                source: `${network.name} cheap deposits`,
+              };
+              console.log(`${responseText(response)}\nFor @${userTag} (${userId}).`);
+
+              await interaction.followUp(responseMessage(response, userMen));
               resolve();
 
             } finally {
-              existingCheapDepositsHoodiWalletRequest.delete(uniformedAddress);
+              existingCheapDepositsWalletRequest.delete(uniformedAddress);
             }
 
           } finally {
-            existingCheapDepositsHoodiUserRequest.delete(userId);
+            existingCheapDepositsUserRequest.delete(userId);
           }
 
         } else {
@@ -1949,14 +2784,16 @@ const main = function() {
 
           await interaction.showModal(modal);
 
-        } else if (interaction.customId === 'sendSignatureForCheapDepositsHoodi') {
+        } else if (cheapDepositButtonsConfig.has(interaction.customId)) {
+
+          const config = cheapDepositButtonsConfig.get(interaction.customId) as cheapDepositConfig;
 
           // Check if the user already has been given cheap deposits recently.
-          const lastRequest = await getLastCheapDepositHoodiRequest(userId);
+          const lastRequest = await getLastCheapDepositRequest(db, config, userId);
           let newRequestPart = '';
           if (lastRequest !== null) {
             const dtLastRequested = DateTime.fromMillis(lastRequest.lastRequested * 1000);
-            const dtRequestAvailable = dtLastRequested.plus(cheapDepositHoodiDelay);
+            const dtRequestAvailable = dtLastRequested.plus(config.cheapDeposit.delay);
 
             let durRequestAvailable = dtRequestAvailable.diff(DateTime.utc()).shiftTo('days', 'hours').normalize();
             if (durRequestAvailable.days === 0) {
@@ -1964,13 +2801,15 @@ const main = function() {
             }
             const formattedDuration = durRequestAvailable.toHuman();
 
-            if (DateTime.utc() < dtRequestAvailable) {
+            if (DateTime.utc() < dtRequestAvailable && lastRequest.grants === 0) {
               await interaction.reply({
                 content: `You cannot do another request this soon. You will need to wait at least ${formattedDuration} before you can request again for ${userMen}.`,
                 allowedMentions: { parse: ['users'], repliedUser: false }
               });
               reject(`You cannot do another request this soon. You will need to wait at least ${formattedDuration} before you can request again for @${userTag} (${userId}).`);
               return;
+            } else if (DateTime.utc() < dtRequestAvailable) {
+              newRequestPart = ` You are using one of the ${lastRequest.grants} extra requests granted by a moderator.`;
             } else {
               let negDurRequestAvailable = durRequestAvailable.negate().shiftTo('days', 'hours').normalize();
               if (negDurRequestAvailable.days === 0) {
@@ -1986,7 +2825,7 @@ const main = function() {
           }
 
           const modal = new ModalBuilder()
-            .setCustomId('ownerCheapDepositsHoodiVerify')
+            .setCustomId(config.modalCustomId)
             .setTitle('Wallet ownership');
 
           const signatureInput = new TextInputBuilder()
@@ -2008,238 +2847,495 @@ const main = function() {
       });
     };
 
-    const discordLogin = function() {
-      return new Promise<void>(async (resolve, reject) => {
-        client.login(process.env.DISCORD_TOKEN).then(() => {
-          console.log('Discord login successful!');
-          resolve();
-        }).catch((error: Error) => {
-          console.log(`Error during Discord login: ${error.message} (${error})`);
-          console.log('Retrying login in 5 seconds...')
-          delay(5000).then(() => discordLogin());
-          reject();
-        });
-      });
+    const discordLogin = function() {
+      return new Promise<void>(async (resolve, reject) => {
+        client.login(process.env.DISCORD_TOKEN).then(() => {
+          console.log('Discord login successful!');
+          resolve();
+        }).catch((error: Error) => {
+          console.log(`Error during Discord login: ${error.message} (${error})`);
+          console.log('Retrying login in 5 seconds...')
+          delay(5000).then(() => discordLogin());
+          reject();
+        });
+      });
+    };
+
+    discordLogin();
+
+    const alertChannels = new Map<string, TextChannel>();
+
+    // Failed lookups are not cached so a channel the bot gets access to later
+    // is used from then on.
+    const findAlertChannel = async function(channelId: string) {
+      const cachedChannel = alertChannels.get(channelId);
+      if (cachedChannel !== undefined) {
+        return cachedChannel;
+      }
+      const channel = await client.channels.fetch(channelId).catch(() => null);
+      if (channel === null || !channel.isTextBased()) {
+        return null;
+      }
+      alertChannels.set(channelId, channel as TextChannel);
+      return channel as TextChannel;
+    };
+
+    // A network without an alert channel never falls back on the channel of
+    // another network.
+    const alertOnDiscord = function(message: string | MessageCreateOptions, channelId: string | undefined) {
+      return new Promise<void>(async (resolve, reject) => {
+        if (channelId === undefined || channelId === '') {
+          reject(new Error('There is no alert channel configured.'));
+          return;
+        }
+
+        try {
+          const alertChannel = await findAlertChannel(channelId);
+          if (alertChannel === null) {
+            reject(new Error(`Unable to find the alert channel ${channelId}.`));
+            return;
+          }
+          await alertChannel.send(message);
+          resolve();
+        } catch (error) {
+          reject(error);
+        }
+      });
+    };
+
+    // Check the alert channel of every monitored network once logged in
+    client.once('ready', async () => {
+      for (const network of networks.filter((network) => network.beaconApiEndpoints.length > 0)) {
+        if (network.alertChannelId === undefined || network.alertChannelId === '') {
+          console.warn(`There is no alert channel configured for ${network.name}. Its alerts will only be logged.`);
+        } else if (await findAlertChannel(network.alertChannelId) === null) {
+          console.warn(`Unable to find the alert channel ${network.alertChannelId} for ${network.name}. Its alerts will only be logged.`);
+        }
+      }
+    });
+
+    // The most severe target vote threshold the rate is below. A rate above all
+    // the thresholds is healthy.
+    const participationRateSeverity = function(rate: number): responseSeverity {
+      const severities = participationAlertThresholds
+        .filter((threshold) => participationAlertMetric(threshold) === 'target' && rate < threshold.threshold)
+        .map((threshold) => threshold.severity);
+      if (severities.includes('critical')) {
+        return 'critical';
+      } else if (severities.includes('warning')) {
+        return 'warning';
+      } else if (severities.includes('info')) {
+        return 'info';
+      }
+      return 'success';
+    };
+
+    const participationRateResponse = function(userTag: string, userId: string): commandResponse {
+      if (currentParticipationRate !== null && currentParticipationRateEpoch !== null && currentParticipationRateDate !== null && previousParticipationRate != null) {
+        // Head and source votes for the same finished epoch
+        const otherMetrics: Array<participationMetric> = ['head', 'source'];
+        const otherRateFields = otherMetrics
+          .filter((metric) => previousParticipationRates[metric] !== undefined)
+          .map((metric) => ({ name: participationMetricNames[metric], value: formatParticipationRate(previousParticipationRates[metric] as number), inline: true }));
+
+        const response: commandResponse = {
+          title: 'Participation rate on Mainnet',
+          fields: [
+            { name: `Epoch ${currentParticipationRateEpoch - 1}`, value: `**${formatParticipationRate(previousParticipationRate)}**`, inline: true },
+            ...otherRateFields,
+            {
+              name: `Current epoch ${currentParticipationRateEpoch}`,
+              value: `${formatParticipationRate(currentParticipationRate)} (this is subject to change and probably incomplete as validators can continue to include attestations for the *current* epoch in the *next* epoch)`
+            },
+          ],
+          severity: participationRateSeverity(previousParticipationRate),
+          source: 'our beacon node',
+          timestamp: currentParticipationRateDate,
+        };
+        console.log(`${responseText(response)}\nFor @${userTag} (${userId}).`);
+        return response;
+      } else {
+        const response: commandResponse = {
+          title: 'Participation rate on Mainnet',
+          description: `We don't have the current participation rate for Mainnet. It should be available in a few minutes if you want to retry.`,
+          severity: 'warning',
+        };
+        console.log(`${responseText(response)}\nFor @${userTag} (${userId}).`);
+        return response;
+      }
+    }
+
+    const autoPostParticipationRate = function() {
+      return new Promise<void>(async (resolve, reject) => {
+        if (participationRateAutoPost && participationRateAutoPostChannel !== null) {
+          const response = participationRateResponse('', process.env.MASTER_USER_ID as string);
+          await participationRateAutoPostChannel.send(responseMessage(response, userMention(process.env.MASTER_USER_ID as string)));
+        }
+        resolve();
+      });
+    };
+
+    let participationRateAlertTriggering: participationAlertState = {};
+
+    // Restoring the alert state so we do not re-fire or miss alerts after a restart
+    databaseInitialized
+    .then(() => getBotState<participationAlertState>(db, PARTICIPATION_RATE_ALERT_STATE))
+    .then((state) => {
+      if (state !== null) {
+        participationRateAlertTriggering = state;
+      }
+    })
+    .catch((error) => {
+      console.log(`Unable to restore the participation rate alert state. ${error}`);
+    });
+
+    let participationSource: participationSourceKind = 'lighthouse';
+    try {
+      participationSource = getParticipationSourceKind();
+    } catch (error) {
+      console.error(`Could not configure the participation source. Using ${participationSource} instead.`);
+      console.error(error);
+    }
+
+    const checkParticipationRate = function (epoch: number) {
+      return new Promise<void>(async (resolve, reject) => {
+        // Query the participation from the configured source
+        try {
+          const participation = await beaconNodeRequest(mainnetMonitor().beaconNodes,
+            (endpoint) => fetchEpochParticipation(endpoint, epoch, participationSource));
+          const participationRateDate = DateTime.utc().toMillis();
+
+          const prevParticipationRate = participation.previousEpochTargetAttestingGwei / participation.currentEpochActiveGwei;
+          const currParticipationRate = participation.currentEpochTargetAttestingGwei / participation.currentEpochActiveGwei;
+
+          const fixedPrevParticipationRate = (prevParticipationRate * 100.0).toLocaleString('en-US', { maximumFractionDigits: 2 }) + '%';
+          const fixedCurrParticipationRate = (currParticipationRate * 100.0).toLocaleString('en-US', { maximumFractionDigits: 2 }) + '%';
+
+          const prevSourceAttestingGwei = participation.previousEpochSourceAttestingGwei;
+          const prevParticipationRates: participationRates = {
+            target: prevParticipationRate,
+            head: participation.previousEpochHeadAttestingGwei / participation.currentEpochActiveGwei,
+          };
+          if (prevSourceAttestingGwei !== null) {
+            prevParticipationRates.source = prevSourceAttestingGwei / participation.currentEpochActiveGwei;
+          }
+
+          console.log(`Participation rate for epoch ${epoch - 1} is ${fixedPrevParticipationRate} (head ${formatParticipationRate(prevParticipationRates.head as number)}). Temporary participation rate for ${epoch} is ${fixedCurrParticipationRate}.`);
+
+          await storeParticipationEpoch(db, {
+            network: 'Mainnet',
+            epoch: epoch - 1,
+            activeGwei: participation.currentEpochActiveGwei,
+            targetAttestingGwei: participation.previousEpochTargetAttestingGwei,
+            headAttestingGwei: participation.previousEpochHeadAttestingGwei,
+            sourceAttestingGwei: prevSourceAttestingGwei,
+          }).catch((error) => {
+            console.log(`Unable to store the participation rate for epoch ${epoch - 1}. ${error}`);
+          });
+
+          const alertEvaluation = evaluateParticipationAlerts(participationAlertThresholds, participationRateAlertTriggering, prevParticipationRates, 'Mainnet', epoch - 1);
+          alertEvaluation.messages.forEach((message) => {
+            console.log(message);
+            alertOnDiscord(message, process.env.ALERT_CHANNEL_ID).catch((error) => {
+              console.log(`Unable to send alert on discord. ${error}`);
+              console.log(error);
+            });
+          });
+
+          if (JSON.stringify(alertEvaluation.state) !== JSON.stringify(participationRateAlertTriggering)) {
+            participationRateAlertTriggering = alertEvaluation.state;
+            await storeBotState(db, PARTICIPATION_RATE_ALERT_STATE, participationRateAlertTriggering).catch((error) => {
+              console.log(`Unable to store the participation rate alert state. ${error}`);
+            });
+          }
+
+          previousParticipationRate = prevParticipationRate;
+          previousParticipationRates = prevParticipationRates;
+          currentParticipationRate = currParticipationRate;
+          currentParticipationRateEpoch = epoch;
+          currentParticipationRateDate = participationRateDate;
+
+          await autoPostParticipationRate();
+
+        } catch (error) {
+          console.log(`Error while trying to query the participation (${participationSource}) for epoch ${epoch} details. ${error}`);
+          console.log(error);
+        }
+      });
+    };
+
+    const eventsRestEndpoint = '/eth/v1/events?topics=head&topics=chain_reorg&topics=finalized_checkpoint';
+    const beaconNodeHealthCheckInterval = 60 * 1000;
+
+    // Each network with beacon nodes gets its own monitor for head events and
+    // slashings. Participation and finality are only followed on Mainnet.
+    interface beaconMonitor {
+      network: networkDefinition;
+      beaconNodes: beaconNodePool;
+      events: EventSource | null;
+      chainHealth: chainHealthTracker;
+      missedSlotsAlertTriggering: boolean;
     };
 
-    discordLogin();
-
-    let alertChannel: TextChannel | null = null;
+    const beaconMonitors = new Map<string, beaconMonitor>();
 
-    const alertOnDiscord = function(message: string) {
-      return new Promise<void>(async (resolve, reject) => {
+    const validatorQueues: validatorQueueCache = new Map();
 
-        if (alertChannel === null) {
-          alertChannel = client.channels.cache.find((channel) => channel.id === process.env.ALERT_CHANNEL_ID) as TextChannel;
+    // Compute the queue from our beacon nodes and only rely on beaconcha.in when
+    // none of them can answer.
+    const getValidatorQueue = function(network: networkDefinition) {
+      const epoch = currentEpoch(network.genesisTime);
+      const electra = epoch >= network.electraForkEpoch;
+      return getCachedValidatorQueue(validatorQueues, network.id, epoch, async () => {
+        const monitor = beaconMonitors.get(network.id);
+        if (monitor !== undefined) {
+          try {
+            return await beaconNodeRequest(monitor.beaconNodes, (endpoint) => fetchBeaconNodeQueue(endpoint, epoch, electra));
+          } catch (error) {
+            if (network.apiQueueUrl === undefined) {
+              throw error;
+            }
+            console.log(`Unable to compute the ${network.name} queue from our beacon nodes. Falling back on beaconcha.in. ${error}`);
+          }
         }
-
-        await alertChannel.send(message);
-        resolve();
+        if (network.apiQueueUrl === undefined) {
+          throw new Error(`There is no beacon node or beaconcha.in API configured for the ${network.name} queue.`);
+        }
+        return await fetchBeaconchainQueue(network.apiQueueUrl, epoch, electra);
       });
     };
 
-    const participationRateMessage = function(userTag: string, userId: string, userMen: string) {
-      if (currentParticipationRate !== null && currentParticipationRateEpoch !== null && currentParticipationRateDate !== null && previousParticipationRate != null) {
-        const prevfixedParticipationRate = (previousParticipationRate * 100.0).toLocaleString('en-US', { maximumFractionDigits: 2 }) + '%';
-        const currentFixedParticipationRate = (currentParticipationRate * 100.0).toLocaleString('en-US', { maximumFractionDigits: 2 }) + '%';
-
-        const dtLastChecked = DateTime.fromMillis(currentParticipationRateDate as number);
-        let durLastChecked = DateTime.utc().diff(dtLastChecked).shiftTo('minutes', 'seconds').normalize();
-        if (durLastChecked.minutes === 0) {
-          durLastChecked = durLastChecked.shiftTo('seconds');
-        }
-
-        const participationRateDuration = durLastChecked.toHuman();
+    // Estimated days to clear each queue with the churn of the queue epoch
+    const validatorQueueWaitDays = function(network: networkDefinition, queue: validatorQueue) {
+      if (queue.balances !== null) {
+        const estimate = estimateElectraQueue(queue.balances);
+        return { activation: estimate.activationEpochs / EPOCHS_PER_DAY, exit: estimate.exitEpochs / EPOCHS_PER_DAY };
+      }
+      const validatorsCount = queue.activeValidators ?? undefined;
+      return {
+        activation: queue.entering / churn_limit_per_day(get_validator_activation_churn_limit(network.name, validatorsCount)),
+        exit: queue.exiting / churn_limit_per_day(validator_churn_limit(validatorsCount)),
+      };
+    };
 
-        console.log(`Participation rate for epoch ${currentParticipationRateEpoch - 1} (${participationRateDuration} ago) is ${prevfixedParticipationRate} on Mainnet. Current participation rate for epoch ${currentParticipationRateEpoch} is ${currentFixedParticipationRate} (this is subject to change and probably incomplete as validators can continue to include attestations for the *current* epoch in the *next* epoch) on Mainnet for @${userTag} (${userId}).`);
-        return `Participation rate for epoch **${currentParticipationRateEpoch - 1}** (${participationRateDuration} ago) is **${prevfixedParticipationRate}** on Mainnet. Current participation rate for epoch ${currentParticipationRateEpoch} is ${currentFixedParticipationRate} (this is subject to change and probably incomplete as validators can continue to include attestations for the *current* epoch in the *next* epoch) on Mainnet for ${userMen}.`;
-      } else {
-        console.log(`We don't have the current participation rate for Mainnet. It should be available in a few minutes if you want to retry for @${userTag} (${userId}).`);
-        return `We don't have the current participation rate for Mainnet. It should be available in a few minutes if you want to retry for ${userMen}.`;
+    const mainnetMonitor = function() {
+      const monitor = beaconMonitors.get('mainnet');
+      if (monitor === undefined) {
+        throw new Error('There is no beacon node configured for Mainnet.');
       }
-    }
+      return monitor;
+    };
 
-    const autoPostParticipationRate = function() {
-      return new Promise<void>(async (resolve, reject) => {
-        if (participationRateAutoPost && participationRateAutoPostChannel !== null) {
-          const message = participationRateMessage('', process.env.MASTER_USER_ID as string, userMention(process.env.MASTER_USER_ID as string));
-          await participationRateAutoPostChannel.send({
-            content: message,
-            allowedMentions: { parse: ['users'], repliedUser: false }
-          });
-        }
-        resolve();
+    const alertMonitorOnDiscord = function(monitor: beaconMonitor, message: string | MessageCreateOptions) {
+      alertOnDiscord(message, monitor.network.alertChannelId).catch((error) => {
+        console.log(`Unable to send ${monitor.network.name} alert on discord. ${error}`);
+        console.log(error);
       });
     };
 
-    let participationRateAlertTriggering = {
-      below90: false,
-      below80: false,
-      below70: false,
-      belowTwoThird: false,
-    };
+    const beaconNodeSwitched = function(monitor: beaconMonitor, nodeSwitch: beaconNodeSwitch) {
+      const networkName = monitor.network.name;
+      const previousName = beaconNodeName(nodeSwitch.previous);
+      const nextName = beaconNodeName(nodeSwitch.next);
 
-    const checkParticipationRate = function (epoch: number) {
-      return new Promise<void>(async (resolve, reject) => {
-        // Query lighthouse Validator Inclusion APIs
-        try {
-          const beaconNodeApiEndpoint = process.env.BEACON_API_ENDPOINT as string;
-          const validatorInclusionRestEndpoint = `/lighthouse/validator_inclusion/${epoch}/global`;
-          const validatorInclusionUrl = beaconNodeApiEndpoint.concat(validatorInclusionRestEndpoint);
-          const response = await axios.get(validatorInclusionUrl,
-            { headers: {'accept': 'application/json'} });
-
-          if (response.status !== 200) {
-            console.log(`Unexpected status code from querying Validator Inclusion API for epoch ${epoch} details. Status code ${response.status}.`);
-            return;
-          }
+      let message = '';
+      if (nodeSwitch.next === null) {
+        message = `🚨 There is no healthy beacon node left on ${networkName} (last one was ${previousName}). Slashing detection is stopped until one is back. 🚨`;
+      } else if (nodeSwitch.previous === null) {
+        message = `ℹ️ Beacon node ${nextName} is healthy on ${networkName}. Slashing detection is back. ℹ️`;
+      } else {
+        message = `⚠️ Switching beacon node on ${networkName} from ${previousName} to ${nextName}. ⚠️`;
+      }
+      console.log(message);
+      alertMonitorOnDiscord(monitor, message);
 
-          interface globalResponse {
-            data: {
-              current_epoch_active_gwei: number,
-              current_epoch_target_attesting_gwei: number,
-              previous_epoch_target_attesting_gwei: number,
-              previous_epoch_head_attesting_gwei: number
-            }
-          };
+      connectBeaconEvents(monitor);
+    };
 
-          const queryResponse = response.data as globalResponse;
-          const participationRateDate = DateTime.utc().toMillis();
+    interface headEvent {
+      slot: number,
+      block: string,
+      state: string,
+      epoch_transition: boolean
+    }
 
-          const prevParticipationRate = queryResponse.data.previous_epoch_target_attesting_gwei / queryResponse.data.current_epoch_active_gwei;
-          const currParticipationRate = queryResponse.data.current_epoch_target_attesting_gwei / queryResponse.data.current_epoch_active_gwei;
+    interface chainReorgEvent {
+      slot: string,
+      depth: string,
+      old_head_block: string,
+      new_head_block: string,
+      epoch: string
+    }
 
-          const fixedPrevParticipationRate = (prevParticipationRate * 100.0).toLocaleString('en-US', { maximumFractionDigits: 2 }) + '%';
-          const fixedCurrParticipationRate = (currParticipationRate * 100.0).toLocaleString('en-US', { maximumFractionDigits: 2 }) + '%';
+    const chainReorgDepthThreshold = parseInt(process.env.CHAIN_REORG_DEPTH_THRESHOLD || '1');
+    const missedSlotsRateThreshold = parseFloat(process.env.MISSED_SLOTS_RATE_THRESHOLD || '0.1');
+
+    // Alert when the missed slots rate for a finished epoch goes above the
+    // threshold and once it is back below it.
+    const checkMissedSlots = function(monitor: beaconMonitor, epoch: number) {
+      const epochHealth = monitor.chainHealth.epochs.get(epoch);
+      if (epochHealth === undefined) {
+        return;
+      }
 
-          const participationRate = prevParticipationRate;
-          const fixedParticipationRate = fixedPrevParticipationRate;
+      const missedRate = getEpochMissedRate(epochHealth);
+      const fixedMissedRate = formatParticipationRate(missedRate);
+      let message: string | null = null;
+      if (missedRate > missedSlotsRateThreshold && !monitor.missedSlotsAlertTriggering) {
+        monitor.missedSlotsAlertTriggering = true;
+        message = `⚠️ ${epochHealth.missedSlots.length} slots were missed on ${monitor.network.name} in epoch ${epoch} (${fixedMissedRate}). ⚠️`;
+      } else if (missedRate <= missedSlotsRateThreshold && monitor.missedSlotsAlertTriggering) {
+        monitor.missedSlotsAlertTriggering = false;
+        message = `ℹ️ Missed slots on ${monitor.network.name} are back to normal in epoch ${epoch} (${fixedMissedRate}). ℹ️`;
+      }
 
-          console.log(`Participation rate for epoch ${epoch - 1} is ${fixedPrevParticipationRate}. Temporary participation rate for ${epoch} is ${fixedCurrParticipationRate}.`);
+      if (message !== null) {
+        console.log(message);
+        alertMonitorOnDiscord(monitor, message);
+      }
+    };
 
-          if (participationRate < twoThird) {
-            participationRateAlertTriggering.below90 = true;
-            participationRateAlertTriggering.below80 = true;
-            participationRateAlertTriggering.below70 = true;
-            if (!participationRateAlertTriggering.belowTwoThird) {
-              participationRateAlertTriggering.belowTwoThird = true;
+    const chainReorgReceived = function(monitor: beaconMonitor, evt: MessageEvent<any>) {
+      const eventData = JSON.parse(evt.data) as chainReorgEvent;
+      const slot = parseInt(eventData.slot);
+      const depth = parseInt(eventData.depth);
+      console.log(`Chain reorg of depth ${depth} at slot ${slot} on ${monitor.network.name}.`);
+      recordChainReorg(monitor.chainHealth, { slot: slot, depth: depth });
+
+      if (depth > chainReorgDepthThreshold) {
+        const message = `⚠️ There was a chain reorg of depth **${depth}** on ${monitor.network.name} at slot ${slot}. ⚠️`;
+        console.log(message);
+        alertMonitorOnDiscord(monitor, message);
+      }
+    };
 
-              const message = `🚨 Participation rate on Mainnet is below 2 / 3 (current: ${fixedParticipationRate} for epoch ${epoch - 1}). Finality is compromised. 🚨`;
-              console.log(message);
-              alertOnDiscord(message).catch((error) => {
-                console.log(`Unable to send alert on discord. ${error}`);
-                console.log(error);
-              });
-            }
-          } else if (participationRate < 0.7) {
-            participationRateAlertTriggering.below90 = true;
-            participationRateAlertTriggering.below80 = true;
-            if (!participationRateAlertTriggering.below70) {
-              participationRateAlertTriggering.below70 = true;
-
-              const message = `⚠️ Participation rate on Mainnet is below 70% (current: ${fixedParticipationRate} for epoch ${epoch - 1}). ⚠️`;
-              console.log(message);
-              alertOnDiscord(message).catch((error) => {
-                console.log(`Unable to send alert on discord. ${error}`);
-                console.log(error);
-              });
-            } else if (participationRateAlertTriggering.belowTwoThird) {
-              participationRateAlertTriggering.belowTwoThird = false;
-
-              const message = `⚠️ Participation rate on Mainnet is back above 2 / 3 (current: ${fixedParticipationRate} for epoch ${epoch - 1}). Finality should resume. ⚠️`;
-              console.log(message);
-              alertOnDiscord(message).catch((error) => {
-                console.log(`Unable to send alert on discord. ${error}`);
-                console.log(error);
-              });
-            }
-          } else if (participationRate < 0.8) {
-            participationRateAlertTriggering.below90 = true;
-            if (!participationRateAlertTriggering.below80) {
-              participationRateAlertTriggering.below80 = true;
+    let validatorLabels = new Map<string, string>();
+    try {
+      validatorLabels = loadValidatorLabels();
+    } catch (error) {
+      console.error(`Could not load validator labels from ${validatorLabelsPath()}.`);
+      console.error(error);
+    }
+    const maxSlashingEmbedFields = 10;
 
-              const message = `⚠️ Participation rate on Mainnet is below 80% (current: ${fixedParticipationRate} for epoch ${epoch - 1}). ⚠️`;
-              console.log(message);
-              alertOnDiscord(message).catch((error) => {
-                console.log(`Unable to send alert on discord. ${error}`);
-                console.log(error);
-              });
-            } else if (participationRateAlertTriggering.below70) {
-              participationRateAlertTriggering.below70 = false;
-
-              const message = `⚠️ Participation rate on Mainnet is back above 70% (current: ${fixedParticipationRate} for epoch ${epoch - 1}). ⚠️`;
-              console.log(message);
-              alertOnDiscord(message).catch((error) => {
-                console.log(`Unable to send alert on discord. ${error}`);
-                console.log(error);
-              });
-            }
+    const slashingKindName = function(kind: slashingKind) {
+      return kind === 'attester' ? 'attestation slashing' : 'proposer slashing';
+    };
 
-            participationRateAlertTriggering.belowTwoThird = false;
+    const slashingsEmbed = function(network: networkDefinition, slot: number, slashings: Array<slashingEvent>) {
+      const validatorRoot = network.validatorRoot;
+      const embed = new EmbedBuilder()
+        .setTitle(`Slashings on ${network.name} at slot ${slot}`)
+        .setColor(0xE74C3C);
 
-          } else if (participationRate < 0.9) {
-            if (!participationRateAlertTriggering.below90) {
-              participationRateAlertTriggering.below90 = true;
+      slashings.slice(0, maxSlashingEmbedFields).forEach((slashing) => {
+        const lines = [];
+        if (slashing.label !== null) {
+          lines.push(`Operator: **${slashing.label}**`);
+        }
+        if (slashing.pubkey !== null) {
+          lines.push(`Pubkey: \`${slashing.pubkey}\``);
+        }
+        if (slashing.withdrawalCredentials !== null) {
+          lines.push(`Withdrawal credentials: \`${slashing.withdrawalCredentials}\``);
+        }
+        if (slashing.balance !== null) {
+          lines.push(`Balance: ${ethers.formatUnits(slashing.balance, 'gwei')} ETH`);
+        }
+        lines.push(`Explore this validator on <${validatorRoot}${slashing.validatorIndex}>`);
+        embed.addFields({ name: `Validator ${slashing.validatorIndex} (${slashingKindName(slashing.kind)})`, value: lines.join('\n') });
+      });
 
-              const message = `⚠️ Participation rate on Mainnet is below 90% (current: ${fixedParticipationRate} for epoch ${epoch - 1}). ⚠️`;
-              console.log(message);
-              alertOnDiscord(message).catch((error) => {
-                console.log(`Unable to send alert on discord. ${error}`);
-                console.log(error);
-              });
-            } else if (participationRateAlertTriggering.below80) {
-              participationRateAlertTriggering.below80 = false;
-
-              const message = `⚠️ Participation rate on Mainnet is back above 80% (current: ${fixedParticipationRate} for epoch ${epoch - 1}). ⚠️`;
-              console.log(message);
-              alertOnDiscord(message).catch((error) => {
-                console.log(`Unable to send alert on discord. ${error}`);
-                console.log(error);
-              });
-            }
+      if (slashings.length > maxSlashingEmbedFields) {
+        embed.setFooter({ text: `And ${slashings.length - maxSlashingEmbedFields} more validators. Use /slashings recent to see all of them.` });
+      }
+      return embed;
+    };
 
-            participationRateAlertTriggering.below70 = false;
-            participationRateAlertTriggering.belowTwoThird = false;
+    const formatSlashingEvent = function(slashing: storedSlashingEvent) {
+      const label = slashing.label !== null ? ` (${slashing.label})` : '';
+      return `- Validator **${slashing.validatorIndex}**${label} ${slashingKindName(slashing.kind)} on ${slashing.network} at slot ${slashing.slot} ${time(slashing.createdAt, TimestampStyles.RelativeTime)}`;
+    };
 
-          } else {
-            if (participationRateAlertTriggering.below90) {
-              const message = `ℹ️ Participation rate on Mainnet is back above 90% (current: ${fixedParticipationRate} for epoch ${epoch - 1}). ℹ️`;
-              console.log(message);
-              alertOnDiscord(message).catch((error) => {
-                console.log(`Unable to send alert on discord. ${error}`);
-                console.log(error);
-              });
-            }
-            participationRateAlertTriggering.below90 = false;
-            participationRateAlertTriggering.below80 = false;
-            participationRateAlertTriggering.below70 = false;
-            participationRateAlertTriggering.belowTwoThird = false;
-          }
+    interface finalizedCheckpointEvent {
+      block: string,
+      state: string,
+      epoch: string
+    }
 
-          previousParticipationRate = prevParticipationRate;
-          currentParticipationRate = currParticipationRate;
-          currentParticipationRateEpoch = epoch;
-          currentParticipationRateDate = participationRateDate;
+    let finality = createFinalityTracker();
+    const finalityEpochGapThreshold = parseInt(process.env.FINALITY_EPOCH_GAP_THRESHOLD || '4');
+    const finalityPollInterval = SLOTS_PER_EPOCH * 12 * 1000;
 
-          await autoPostParticipationRate();
+    // Restoring the finality state so the non-finality duration survives a restart
+    const finalityRestored = databaseInitialized
+    .then(() => getBotState<finalityTracker>(db, FINALITY_STATE))
+    .then((state) => {
+      if (state !== null) {
+        finality = state;
+      }
+    })
+    .catch((error) => {
+      console.log(`Unable to restore the finality state. ${error}`);
+    });
 
-        } catch (error) {
-          console.log(`Error while trying to query Validator Inclusion API for epoch ${epoch} details. ${error}`);
-          console.log(error);
+    const finalityChanged = function(change: finalityChange) {
+      let message = '';
+      if (change.kind === 'lost') {
+        message = `🚨 Mainnet is not finalizing. The last finalized epoch is ${change.finalizedEpoch} which is **${change.gap} epochs** behind the head (epoch ${change.headEpoch}). 🚨`;
+      } else {
+        let durationPart = '';
+        if (change.duration !== null) {
+          let nonFinalityDuration = Duration.fromMillis(change.duration).shiftTo('hours', 'minutes').normalize();
+          if (nonFinalityDuration.hours === 0) {
+            nonFinalityDuration = nonFinalityDuration.shiftTo('minutes');
+          }
+          durationPart = ` after ${nonFinalityDuration.toHuman({ maximumFractionDigits: 0 })} without finality`;
         }
+        message = `ℹ️ Finality resumed on Mainnet${durationPart}. The last finalized epoch is now ${change.finalizedEpoch}${change.previousFinalizedEpoch !== null ? ` (was ${change.previousFinalizedEpoch})` : ''}. ℹ️`;
+      }
+      console.log(message);
+      alertOnDiscord(message, process.env.ALERT_CHANNEL_ID).catch((error) => {
+        console.log(`Unable to send alert on discord. ${error}`);
+        console.log(error);
       });
     };
 
-    const beaconNodeApiEndpoint = process.env.BEACON_API_ENDPOINT as string;
-    const eventsRestEndpoint = '/eth/v1/events?topics=head';
-    const bnEventsUrl = beaconNodeApiEndpoint.concat(eventsRestEndpoint);
+    const checkFinality = async function(headEpoch: number | null, finalizedEpoch: number) {
+      const previousState = JSON.stringify(finality);
+      const change = updateFinality(finality, headEpoch, finalizedEpoch, finalityEpochGapThreshold);
+      if (change !== null) {
+        finalityChanged(change);
+      }
+      if (JSON.stringify(finality) !== previousState) {
+        await storeBotState(db, FINALITY_STATE, finality).catch((error) => {
+          console.log(`Unable to store the finality state. ${error}`);
+        });
+      }
+    };
 
-    interface headEvent {
-      slot: number,
-      block: string,
-      state: string,
-      epoch_transition: boolean
-    }
+    const finalizedCheckpointReceived = function(evt: MessageEvent<any>) {
+      const eventData = JSON.parse(evt.data) as finalizedCheckpointEvent;
+      const finalizedEpoch = parseInt(eventData.epoch);
+      console.log(`Finalized checkpoint for epoch ${finalizedEpoch}.`);
+
+      const lastSlot = mainnetMonitor().chainHealth.lastSlot;
+      const headEpoch = lastSlot !== null ? Math.floor(lastSlot / SLOTS_PER_EPOCH) : null;
+      checkFinality(headEpoch, finalizedEpoch);
+    };
+
+    // Finalized checkpoint events stop when the chain is not finalizing so we
+    // also need to poll to notice it.
+    const pollFinality = function() {
+      if (!beaconMonitors.has('mainnet')) {
+        return;
+      }
+      beaconNodeRequest(mainnetMonitor().beaconNodes, (endpoint) => fetchFinalityStatus(endpoint))
+      .then((status) => checkFinality(status.headEpoch, status.finalizedEpoch))
+      .catch((error) => {
+        console.log(`Unable to query the finality checkpoints. ${error}`);
+      });
+    };
 
     interface indexedAttestation {
       attesting_indices: Array<number>
@@ -2275,97 +3371,410 @@ const main = function() {
       }
     }
 
-    let bnEvents = new EventSource(bnEventsUrl);
+    const FAR_FUTURE_EPOCH = '18446744073709551615';
+    const SECONDS_PER_EPOCH = SLOTS_PER_EPOCH * 12;
+
+    const withdrawalCredentialsDescription = function(withdrawalCredentials: string) {
+      const prefix = withdrawalCredentials.slice(0, 4);
+      const address = `0x${withdrawalCredentials.slice(-40)}`;
+      if (prefix === '0x00') {
+        return 'BLS (0x00), change to 0x01 credentials to enable withdrawals';
+      } else if (prefix === '0x01') {
+        return `Execution address (0x01) \`${address}\``;
+      } else if (prefix === '0x02') {
+        return `Compounding (0x02) \`${address}\``;
+      }
+      return `Unknown (${prefix})`;
+    };
+
+    const formatValidatorEpoch = function(epoch: string, headEpoch: number) {
+      if (epoch === FAR_FUTURE_EPOCH) {
+        return 'Not set';
+      }
+      const epochDate = DateTime.utc().plus({ seconds: (parseInt(epoch) - headEpoch) * SECONDS_PER_EPOCH });
+      return `${epoch} (${time(epochDate.toJSDate(), TimestampStyles.RelativeTime)})`;
+    };
+
+    // Estimate how long a pending validator will wait for its activation from
+    // the current activation queue.
+    const estimateValidatorActivation = async function(network: networkDefinition, validator: validatorDetails, headEpoch: number) {
+      if (validator.activationEpoch !== FAR_FUTURE_EPOCH) {
+        const activationDate = DateTime.utc().plus({ seconds: (parseInt(validator.activationEpoch) - headEpoch) * SECONDS_PER_EPOCH });
+        return `Activation is scheduled ${time(activationDate.toJSDate(), TimestampStyles.RelativeTime)}.`;
+      }
+      const queue = await getValidatorQueue(network);
+      if (queue.balances !== null) {
+        // The deposit already left the pending deposits queue when the validator
+        // exists. It only waits for its eligibility to be finalized.
+        return 'The deposit was already processed. The validator should be activated about 5 epochs after its eligibility is finalized, usually in less than an hour.';
+      }
+
+      const activationChurnLimit = get_validator_activation_churn_limit(network.name, queue.activeValidators ?? undefined);
+      const activationChurnPerDay = churn_limit_per_day(activationChurnLimit);
+      const activationDuration = queue_duration(queue.entering / activationChurnPerDay);
+
+      const eligibilityPart = validator.status === 'pending_initialized' ?
+        'The deposit still needs 16-24 hours to be processed before joining the activation queue. ' : '';
+      return `${eligibilityPart}There are ${queue.entering} validators in the activation queue so it should take at most ` +
+        `${activationDuration.toHuman({ maximumFractionDigits: 0 })} to be activated (churn limit is ${activationChurnLimit} per epoch or ${activationChurnPerDay} per day).`;
+    };
+
+    // Where a validator or its deposit is in the activation queue. Resolves with
+    // null when it is neither a validator nor a pending deposit.
+    const validatorQueuePositionMessage = async function(monitor: beaconMonitor, validatorId: string, validator: validatorDetails | null) {
+      const network = monitor.network;
+      if (validator !== null && !validator.status.startsWith('pending')) {
+        return `Validator **${validator.index}** is not waiting for its activation on ${network.name}. Its status is **${validator.status}**.`;
+      }
+
+      const epoch = currentEpoch(network.genesisTime);
+      const queue = await getValidatorQueue(network);
+
+      // After Electra a new validator only exists once its deposit left the
+      // pending deposits queue
+      if (validator === null) {
+        if (queue.balances === null || !/^0x[0-9a-fA-F]{96}$/.test(validatorId)) {
+          return null;
+        }
+        const deposits = await beaconNodeRequest(monitor.beaconNodes, (endpoint) => fetchPendingDeposits(endpoint));
+        const position = findPendingDepositPosition(deposits, validatorId);
+        if (position === null) {
+          return null;
+        }
+
+        const estimate = estimateElectraQueue(queue.balances);
+        const depositDuration = queue_duration(Number(position.gweiAhead) / Number(estimate.activationExitChurnGwei) / EPOCHS_PER_DAY);
+        const churnText = `(churn limit is ${formatGweiAsEth(estimate.activationExitChurnGwei)} ETH per epoch or ${formatGweiAsEth(estimate.activationExitChurnGwei * BigInt(EPOCHS_PER_DAY))} ETH per day)`;
+        return `The deposit of **${ethers.formatUnits(position.amount, 'gwei')} ETH** for this validator is at position **${position.position}** of ${position.queueLength} in the pending deposits queue on ${network.name} ` +
+          `with ${formatGweiAsEth(position.gweiAhead)} ETH to process up to it. It should be processed in about ${depositDuration.toHuman({ maximumFractionDigits: 0 })} ${churnText}. ` +
+          'The validator should be activated less than an hour after that.';
+      }
+
+      if (validator.activationEpoch !== FAR_FUTURE_EPOCH || queue.balances !== null || validator.status !== 'pending_queued') {
+        return `Validator **${validator.index}** is **${validator.status}** on ${network.name}. ${await estimateValidatorActivation(network, validator, epoch)}`;
+      }
+
+      const pendingValidators = await beaconNodeRequest(monitor.beaconNodes, (endpoint) => fetchPendingQueuedValidators(endpoint));
+      const position = findActivationQueuePosition(pendingValidators, validator.index);
+      if (position === null) {
+        return `Validator **${validator.index}** is **${validator.status}** on ${network.name}. ${await estimateValidatorActivation(network, validator, epoch)}`;
+      }
+
+      const activationChurnLimit = get_validator_activation_churn_limit(network.name, queue.activeValidators ?? undefined);
+      const activationChurnPerDay = churn_limit_per_day(activationChurnLimit);
+      const activationDuration = queue_duration(position.position / activationChurnPerDay);
+      return `Validator **${validator.index}** is at position **${position.position}** of ${position.queueLength} in the activation queue on ${network.name} ` +
+        `(eligible since epoch ${validator.activationEligibilityEpoch}). It should be activated in about ${activationDuration.toHuman({ maximumFractionDigits: 0 })} ` +
+        `(churn limit is ${activationChurnLimit} per epoch or ${activationChurnPerDay} per day).`;
+    };
+
+    const queueSampleInterval = 60 * 60 * 1000;
+    const queueAutoPostInterval = Duration.fromObject({ days: 1 });
+
+    const formatQueueSampleSize = function(entering: number, enteringEth: number | null, unit: string) {
+      return enteringEth !== null ? `${Math.round(enteringEth).toLocaleString('en-US')} ETH in ${entering} ${unit}` : `${entering} validators`;
+    };
+
+    const formatQueueWait = function(days: number) {
+      return queue_duration(days).toHuman({ maximumFractionDigits: 0 });
+    };
+
+    const queueHistoryResponse = function(network: networkDefinition, days: number, summary: queueHistorySummary): commandResponse {
+      const first = summary.first;
+      const last = summary.last;
+      const enteringName = 'pending deposits';
+      const exitingName = 'exiting validators and partial withdrawals';
+      return {
+        title: `Validator queues on ${network.name} over the last ${days} days`,
+        description: `Epochs ${first.epoch} to ${last.epoch}, ${summary.count} samples.`,
+        fields: [
+          {
+            name: 'Activation queue',
+            value: `${formatQueueSampleSize(last.entering, last.enteringEth, enteringName)} with an estimated wait of ${formatQueueWait(last.activationWaitDays)}. ` +
+              `It was ${formatQueueSampleSize(first.entering, first.enteringEth, enteringName)} with a wait of ${formatQueueWait(first.activationWaitDays)}. ` +
+              `The longest wait was ${formatQueueWait(summary.maxActivationWait.activationWaitDays)} (epoch ${summary.maxActivationWait.epoch}).`
+          },
+          {
+            name: 'Exit queue',
+            value: `${formatQueueSampleSize(last.exiting, last.exitingEth, exitingName)} with an estimated wait of ${formatQueueWait(last.exitWaitDays)}. ` +
+              `It was ${formatQueueSampleSize(first.exiting, first.exitingEth, exitingName)} with a wait of ${formatQueueWait(first.exitWaitDays)}. ` +
+              `The longest wait was ${formatQueueWait(summary.maxExitWait.exitWaitDays)} (epoch ${summary.maxExitWait.epoch}).`
+          },
+          { name: 'Activation wait', value: `\`${summary.activationWaitSparkline}\``, inline: true },
+          { name: 'Exit wait', value: `\`${summary.exitWaitSparkline}\``, inline: true },
+        ],
+        severity: Math.max(last.activationWaitDays, last.exitWaitDays) > 7 ? 'warning' : 'info',
+        source: `${last.source === 'beacon node' ? 'our beacon node' : 'beaconcha.in API'} samples`,
+        timestamp: last.createdAt * 1000,
+      };
+    };
+
+    const sampleValidatorQueue = async function(network: networkDefinition) {
+      const queue = await getValidatorQueue(network);
+      const waitDays = validatorQueueWaitDays(network, queue);
+      const sample: queueSample = {
+        network: network.id,
+        epoch: queue.epoch,
+        entering: queue.entering,
+        exiting: queue.exiting,
+        enteringEth: queue.balances !== null ? Number(ethers.formatUnits(queue.balances.enteringGwei, 'gwei')) : null,
+        exitingEth: queue.balances !== null ? Number(ethers.formatUnits(queue.balances.exitingGwei, 'gwei')) : null,
+        activationWaitDays: waitDays.activation,
+        exitWaitDays: waitDays.exit,
+        source: queue.source,
+      };
+      await storeQueueSample(db, sample);
+    };
+
+    // Post the report when a day went by since the last one. Samples are taken
+    // every hour so we allow half of that early to avoid drifting every day.
+    const autoPostQueueReport = async function() {
+      if (!queueAutoPost.enabled || queueAutoPostChannel === null) {
+        return;
+      }
+      const now = Date.now();
+      if (queueAutoPost.lastPostedAt !== null && now - queueAutoPost.lastPostedAt < queueAutoPostInterval.toMillis() - queueSampleInterval / 2) {
+        return;
+      }
+
+      const network = networks.find((network) => network.id === 'mainnet') as networkDefinition;
+      const since = Math.floor(DateTime.utc().minus(queueAutoPostInterval).toMillis() / 1000);
+      const summary = summarizeQueueHistory(await getQueueHistory(db, network.id, since));
+      if (summary === null) {
+        return;
+      }
+
+      const response = queueHistoryResponse(network, queueAutoPostInterval.as('days'), summary);
+      console.log(`Queue report auto post\n${responseText(response)}`);
+      await queueAutoPostChannel.send(responseMessage(response));
+      queueAutoPost.lastPostedAt = now;
+      await storeBotState(db, QUEUE_AUTO_POST_STATE, queueAutoPost);
+    };
+
+    const sampleValidatorQueues = async function() {
+      for (const network of networks.filter(hasValidatorQueue)) {
+        await sampleValidatorQueue(network).catch((error) => {
+          console.log(`Unable to sample the ${network.name} queue. ${error}`);
+        });
+      }
+      await autoPostQueueReport().catch((error) => {
+        console.log(`Unable to auto post the queue report. ${error}`);
+      });
+    };
+
+    const formatValidatorWatch = function(watch: validatorWatch) {
+      const network = networks.find((network) => network.id === watch.network);
+      const networkName = network?.name ?? watch.network;
+      return `- Validator **${watch.validatorIndex}** on ${networkName} (${watch.lastStatus ?? 'unknown status'})`;
+    };
+
+    // Check the validators watched on this network for an epoch and DM each
+    // user a summary of what went wrong.
+    const checkWatchedValidators = async function(monitor: beaconMonitor, epoch: number) {
+      const network = monitor.network;
+      try {
+        const watches = await getNetworkValidatorWatches(db, network.id);
+        if (watches.length === 0) {
+          return;
+        }
+
+        // Each query is done on its own so a failing endpoint does not hide
+        // what the others report.
+        const indices = Array.from(new Set<number>(watches.map((watch) => watch.validatorIndex)));
+        const statuses = await beaconNodeRequest(monitor.beaconNodes, (endpoint) => fetchValidatorStatuses(endpoint, 'head', indices))
+          .catch((error) => {
+            console.log(`Unable to query the watched validator statuses on ${network.name}. ${error}`);
+            return new Map<number, validatorStatus>();
+          });
+        const liveness = await beaconNodeRequest(monitor.beaconNodes, (endpoint) => fetchValidatorLiveness(endpoint, epoch, indices))
+          .catch((error) => {
+            console.log(`Unable to query the watched validator liveness for epoch ${epoch} on ${network.name}. ${error}`);
+            return new Map<number, boolean>();
+          });
+
+        const missedProposals = new Map<number, Array<number>>();
+        try {
+          const duties = (await beaconNodeRequest(monitor.beaconNodes, (endpoint) => fetchProposerDuties(endpoint, epoch)))
+            .filter((duty) => indices.includes(duty.validatorIndex));
+          for (const duty of duties) {
+            const hasBlock = await beaconNodeRequest(monitor.beaconNodes, (endpoint) => fetchSlotHasBlock(endpoint, duty.slot));
+            if (!hasBlock) {
+              const slots = missedProposals.get(duty.validatorIndex) ?? [];
+              slots.push(duty.slot);
+              missedProposals.set(duty.validatorIndex, slots);
+            }
+          }
+        } catch (error) {
+          console.log(`Unable to check the watched validator proposals for epoch ${epoch} on ${network.name}. ${error}`);
+        }
+
+        const reports = new Map<string, Array<string>>();
+        const updatedStatuses = new Set<number>();
+        const updatedLiveness = new Set<number>();
+        for (const watch of watches) {
+          const lines: Array<string> = [];
+          const status = statuses.get(watch.validatorIndex);
+          const validatorUrl = `<${network.validatorRoot}${watch.validatorIndex}>`;
+
+          if (status !== undefined && status.status !== watch.lastStatus) {
+            if (status.slashed && !(watch.lastStatus ?? '').endsWith('_slashed')) {
+              lines.push(`🚨 Validator **${watch.validatorIndex}** was **slashed**. Its status is now ${status.status}. ${validatorUrl}`);
+            } else {
+              lines.push(`Validator **${watch.validatorIndex}** changed status from ${watch.lastStatus ?? 'unknown'} to **${status.status}**. ${validatorUrl}`);
+            }
+            if (!updatedStatuses.has(watch.validatorIndex)) {
+              updatedStatuses.add(watch.validatorIndex);
+              await updateValidatorWatchStatus(db, network.id, watch.validatorIndex, status.status);
+            }
+          }
+
+          // Only active validators are expected to attest. We only notify when
+          // a validator goes offline or comes back, not every epoch.
+          const live = liveness.get(watch.validatorIndex);
+          if (status !== undefined && status.status.startsWith('active') && live !== undefined) {
+            const lastLive = watch.lastLive === null ? null : watch.lastLive === 1;
+            if (!live && lastLive !== false) {
+              lines.push(`⚠️ Validator **${watch.validatorIndex}** missed its attestation in epoch ${epoch} and looks offline. ${validatorUrl}`);
+            } else if (live && lastLive === false) {
+              lines.push(`✅ Validator **${watch.validatorIndex}** is attesting again in epoch ${epoch}. ${validatorUrl}`);
+            }
+            if (live !== lastLive && !updatedLiveness.has(watch.validatorIndex)) {
+              updatedLiveness.add(watch.validatorIndex);
+              await updateValidatorWatchLiveness(db, network.id, watch.validatorIndex, live);
+            }
+          }
+
+          (missedProposals.get(watch.validatorIndex) ?? []).forEach((slot) => {
+            lines.push(`⚠️ Validator **${watch.validatorIndex}** missed its block proposal at slot ${slot}. ${validatorUrl}`);
+          });
+
+          if (lines.length > 0) {
+            reports.set(watch.userId, [...(reports.get(watch.userId) ?? []), ...lines]);
+          }
+        }
+
+        for (const [userId, lines] of reports) {
+          console.log(`Sending ${lines.length} validator watch notices for epoch ${epoch} on ${network.name} to ${userId}.`);
+          try {
+            const user = await client.users.fetch(userId);
+            await user.send(`Here is what happened to your watched validators on ${network.name} in epoch ${epoch}:\n${lines.join('\n')}`.slice(0, 2000));
+          } catch (error) {
+            console.log(`Unable to DM validator watch notices to ${userId}. ${error}`);
+          }
+        }
+      } catch (error) {
+        console.log(`Error while checking watched validators for epoch ${epoch} on ${network.name}. ${error}`);
+        console.log(error);
+      }
+    };
 
-    const headEventReceived = async function(evt: MessageEvent<any>) {
+    const headEventReceived = async function(monitor: beaconMonitor, evt: MessageEvent<any>) {
+      const network = monitor.network;
       const eventData = JSON.parse(evt.data) as headEvent;
+      const missedSlots = recordHeadSlot(monitor.chainHealth, Number(eventData.slot));
+      if (missedSlots.length > 0) {
+        console.log(`Missed slots ${missedSlots.join(', ')} before slot ${eventData.slot} on ${network.name}.`);
+      }
+
       if (eventData.epoch_transition) {
-        const epoch = Math.floor(eventData.slot / 32);
-        console.log(`Epoch transition on slot ${eventData.slot} for epoch ${epoch}.`);
+        const epoch = Math.floor(eventData.slot / SLOTS_PER_EPOCH);
+        console.log(`Epoch transition on slot ${eventData.slot} for epoch ${epoch} on ${network.name}.`);
 
         const previousEpoch = epoch - 1;
-        checkParticipationRate(previousEpoch);
+        if (network.id === 'mainnet') {
+          checkParticipationRate(previousEpoch);
+        }
+        checkMissedSlots(monitor, previousEpoch);
+        // The liveness API only answers for the current and the previous epoch
+        checkWatchedValidators(monitor, previousEpoch);
       }
       
-      const bnBlockUrl = beaconNodeApiEndpoint.concat(`/eth/v2/beacon/blocks/${eventData.slot}`);
-      
-      const validatorRoot = 'https://beaconcha.in/validator/';
+      const bnBlockUrl = `/eth/v2/beacon/blocks/${eventData.slot}`;
 
       try {
-        const response = await axios.get(bnBlockUrl, { headers: {'accept': 'application/json'} });
+        const response = await beaconNodeRequest(monitor.beaconNodes,
+          (endpoint) => axios.get(endpoint.concat(bnBlockUrl), { headers: {'accept': 'application/json'} }));
         if (response.status !== 200) {
           console.log(`Unexpected status code from querying beacon node API for ${bnBlockUrl}. Status code ${response.status}.`);
           return;
         }
         
         const block = response.data as beaconBlock;
-        const slot = block.data.message.slot;
+        const slot = Number(block.data.message.slot);
 
         const attSlashings = block.data.message.body.attester_slashings;
         const propSlashings = block.data.message.body.proposer_slashings;
 
-        let foundSlashings = false;
-        let attestationSlashingsMessage = '';
-        let proposerSlashingMessage = '';
+        const slashedValidators: Array<slashedValidator> = [];
+        const addSlashedValidator = function(validatorIndex: number, kind: slashingKind) {
+          if (!slashedValidators.some((slashed) => slashed.validatorIndex === validatorIndex)) {
+            slashedValidators.push({ validatorIndex: validatorIndex, kind: kind });
+          }
+        };
 
-        if (attSlashings.length > 0) {
-          // We have attestation slashings
-          console.log('Attestation slashings');
-          foundSlashings = true;
+        attSlashings.forEach((attSlashing) => {
+          // Validators in both attestations are the ones being slashed
+          const indices1 = new Set<number>(attSlashing.attestation_1.attesting_indices.map(Number));
+          const indices2 = new Set<number>(attSlashing.attestation_2.attesting_indices.map(Number));
+          indices1.forEach((validatorIndex) => {
+            if (indices2.has(validatorIndex)) {
+              addSlashedValidator(validatorIndex, 'attester');
+            }
+          });
+        });
 
-          let attSlashingCount = 0;
-          attSlashings.forEach((attSlashing) => {
-            const indices1 = new Set<number>(attSlashing.attestation_1.attesting_indices);
-            const indices2 = new Set<number>(attSlashing.attestation_2.attesting_indices);
-            const intersection = new Set<number>([...indices1].filter(x => indices2.has(x)));
+        propSlashings.forEach((propSlashing) => {
+          const index1 = Number(propSlashing.signed_header_1.message.proposer_index);
+          const index2 = Number(propSlashing.signed_header_2.message.proposer_index);
+          if (index1 === index2) {
+            addSlashedValidator(index1, 'proposer');
+          }
+        });
 
-            intersection.forEach((validatorIndex) => {
-              if (attSlashingCount == 5) {
-                attestationSlashingsMessage = attestationSlashingsMessage + `\n[...]`
-              }
-              if (attSlashingCount >= 5) {
-                return;
-              } else {
-                console.log(`Attestation slashing for validator ${validatorIndex} at slot ${slot}`);
-                const exploreChainUrl = `${validatorRoot}${validatorIndex}`;
-                attestationSlashingsMessage = attestationSlashingsMessage + `\n- Validator **${validatorIndex}** was part of an *attestation slashing*. Explore this validator on <${exploreChainUrl}>`;
-              }
-              attSlashingCount = attSlashingCount + 1;
-            });
+        const newSlashings: Array<slashingEvent> = [];
+        for (const slashed of slashedValidators) {
+          console.log(`${slashed.kind === 'attester' ? 'Attestation' : 'Proposer'} slashing for validator ${slashed.validatorIndex} at slot ${slot} on ${network.name}`);
+
+          const known = await isSlashingEventKnown(db, network.name, slot, slashed.validatorIndex).catch((error) => {
+            console.log(`Unable to check if we already know the slashing for validator ${slashed.validatorIndex} at slot ${slot}. ${error}`);
+            return false;
           });
-        }
+          if (known) {
+            continue;
+          }
 
-        let propSlashingCount = 0;
-        if (propSlashings.length > 0) {
-          // We have proposer slashings
-          console.log('Proposer slashings');
-          foundSlashings = true;
-
-          propSlashings.forEach((propSlashings) => {
-            const index1 = propSlashings.signed_header_1.message.proposer_index;
-            const index2 = propSlashings.signed_header_2.message.proposer_index;
-            const validatorIndex = index1;
-            if (index1 === index2) {
-              if (propSlashingCount == 5) {
-                proposerSlashingMessage = proposerSlashingMessage + `\n[...]`
-              }
-              if (propSlashingCount >= 5) {
-                return;
-              } else {
-                console.log(`Proposer slashing for validator ${validatorIndex} at slot ${slot}`);
-                const exploreChainUrl = `${validatorRoot}${validatorIndex}`;
-                proposerSlashingMessage = proposerSlashingMessage + `\n- Validator **${validatorIndex}** was part of a *proposer slashing*. Explore this validator on <${exploreChainUrl}>`;
-              }
-              propSlashingCount = propSlashingCount + 1;
-            }
+          const details = await beaconNodeRequest(monitor.beaconNodes,
+            (endpoint) => fetchValidatorDetails(endpoint, 'head', slashed.validatorIndex.toString()))
+          .catch((error) => {
+            console.log(`Unable to get the details for validator ${slashed.validatorIndex}. ${error}`);
+            return null;
+          });
+
+          const event: slashingEvent = {
+            network: network.name,
+            slot: slot,
+            validatorIndex: slashed.validatorIndex,
+            kind: slashed.kind,
+            pubkey: details?.pubkey ?? null,
+            withdrawalCredentials: details?.withdrawalCredentials ?? null,
+            balance: details?.balance ?? null,
+            label: getValidatorLabel(validatorLabels, slashed.validatorIndex, details?.pubkey ?? null),
+          };
+
+          // We would rather alert twice than miss a slashing if the database fails
+          const stored = await storeSlashingEvent(db, event).catch((error) => {
+            console.log(`Unable to store the slashing for validator ${slashed.validatorIndex} at slot ${slot}. ${error}`);
+            return true;
           });
+          if (stored) {
+            newSlashings.push(event);
+          }
         }
 
-        if (foundSlashings) {
-          const message = `🚨 We just found **slashings** on Mainnet at slot ${slot} 🚨\n${attestationSlashingsMessage}${proposerSlashingMessage}`;
-          alertOnDiscord(message).catch((error) => {
-            console.log(`Unable to send alert on discord. ${error}`);
-            console.log(error);
+        if (newSlashings.length > 0) {
+          alertMonitorOnDiscord(monitor, {
+            content: `🚨 We just found **slashings** on ${network.name} at slot ${slot} 🚨`,
+            embeds: [slashingsEmbed(network, slot, newSlashings)]
           });
         }
 
@@ -2375,21 +3784,74 @@ const main = function() {
       }
 
     };
-    const headEventError = function(evt: MessageEvent<any>) {
-      console.log('EventSource Error');
+    const headEventError = function(monitor: beaconMonitor, evt: MessageEvent<any>) {
+      console.log(`EventSource Error on ${monitor.network.name}`);
       console.log(evt);
-      bnEvents.close();
+      monitor.events?.close();
+      monitor.events = null;
 
       console.log('Retrying event source in 5 seconds...')
-      delay(5000).then(() => {
-        bnEvents = new EventSource(bnEventsUrl);
-        bnEvents.addEventListener('head', headEventReceived);
-        bnEvents.onerror = headEventError;
+      delay(5000).then(async () => {
+        // Switching to another node reconnects the event source
+        await refreshBeaconNodePool(monitor.beaconNodes);
+        if (monitor.events === null) {
+          connectBeaconEvents(monitor);
+        }
       });
     };
 
-    bnEvents.addEventListener('head', headEventReceived);
-    bnEvents.onerror = headEventError;
+    // Subscribe to the head events on the current beacon node, closing any
+    // previous subscription
+    const connectBeaconEvents = function(monitor: beaconMonitor) {
+      monitor.events?.close();
+      monitor.events = null;
+
+      const endpoint = monitor.beaconNodes.current;
+      if (endpoint === null) {
+        return;
+      }
+
+      console.log(`Subscribing to head events on ${beaconNodeName(endpoint)} for ${monitor.network.name}.`);
+      resetChainHealthHead(monitor.chainHealth);
+      const events = new EventSource(endpoint.concat(eventsRestEndpoint));
+      events.addEventListener('head', (evt) => headEventReceived(monitor, evt));
+      events.addEventListener('chain_reorg', (evt) => chainReorgReceived(monitor, evt));
+      if (monitor.network.id === 'mainnet') {
+        events.addEventListener('finalized_checkpoint', finalizedCheckpointReceived);
+      }
+      events.onerror = (evt) => headEventError(monitor, evt);
+      monitor.events = events;
+    };
+
+    networks.filter((network) => network.beaconApiEndpoints.length > 0).forEach((network) => {
+      const monitor: beaconMonitor = {
+        network: network,
+        beaconNodes: createBeaconNodePool(network.beaconApiEndpoints, (nodeSwitch) => beaconNodeSwitched(monitor, nodeSwitch)),
+        events: null,
+        chainHealth: createChainHealthTracker(),
+        missedSlotsAlertTriggering: false,
+      };
+      beaconMonitors.set(network.id, monitor);
+      connectBeaconEvents(monitor);
+    });
+
+    setInterval(() => {
+      beaconMonitors.forEach((monitor) => {
+        refreshBeaconNodePool(monitor.beaconNodes).then(() => {
+          if (monitor.events === null) {
+            connectBeaconEvents(monitor);
+          }
+        }).catch((error) => {
+          console.log(`Unable to check the beacon nodes health on ${monitor.network.name}. ${error}`);
+        });
+      });
+    }, beaconNodeHealthCheckInterval);
+
+    finalityRestored.then(() => pollFinality());
+    setInterval(pollFinality, finalityPollInterval);
+
+    databaseInitialized.then(() => sampleValidatorQueues());
+    setInterval(sampleValidatorQueues, queueSampleInterval);
 
   });
 };
@@ -0,0 +1,123 @@
+import { ethers } from "ethers";
+import { Database } from 'sqlite3';
+import { DateTime } from 'luxon';
+
+export const FAUCET_TRANSACTION_TABLE = 'faucet_transaction';
+export const CHEAP_DEPOSIT_TRANSACTION_TABLE = 'cheap_deposit_transaction';
+
+export type ledgerTable = typeof FAUCET_TRANSACTION_TABLE | typeof CHEAP_DEPOSIT_TRANSACTION_TABLE;
+
+// What a cheap deposit transaction was for. Faucet transactions are always a
+// plain transfer.
+export type cheapDepositTransactionKind = 'contract_refill' | 'token_transfer' | 'wallet_top_up';
+
+export interface ledgerEntry {
+  userId: string;
+  walletAddress: string;
+  network: string;
+  amount: bigint;
+  kind?: cheapDepositTransactionKind;
+};
+
+export interface ledgerTransaction {
+  id: number;
+  userId: string;
+  walletAddress: string;
+  network: string;
+  kind: cheapDepositTransactionKind | null;
+  amount: string;
+  transactionHash: string;
+  blockNumber: number | null;
+  status: string;
+  gasUsed: string | null;
+  createdAt: number;
+};
+
+export const initLedgerTables = function(db: Database) {
+  return new Promise<void>(async (resolve, reject) => {
+    db.serialize(() => {
+      [FAUCET_TRANSACTION_TABLE, CHEAP_DEPOSIT_TRANSACTION_TABLE].forEach((tableName, index, tables) => {
+        const lastOne = (index + 1 === tables.length);
+
+        db.run(`CREATE TABLE IF NOT EXISTS ${tableName} (id INTEGER PRIMARY KEY AUTOINCREMENT, userId TEXT NOT NULL, walletAddress TEXT NOT NULL, network TEXT NOT NULL, kind TEXT, amount TEXT NOT NULL, transactionHash TEXT UNIQUE NOT NULL, blockNumber INTEGER, status TEXT NOT NULL, gasUsed TEXT, createdAt INTEGER NOT NULL);`, (error: Error | null) => {
+          if (error !== null) {
+            reject(error);
+            return;
+          }
+        });
+
+        db.run(`CREATE INDEX IF NOT EXISTS ${tableName}_userId on ${tableName} ( userId );`, (error: Error | null) => {
+          if (error !== null) {
+            reject(error);
+            return;
+          }
+        });
+
+        db.run(`CREATE INDEX IF NOT EXISTS ${tableName}_walletAddress on ${tableName} ( walletAddress );`, (error: Error | null) => {
+          if (error !== null) {
+            reject(error);
+            return;
+          }
+          if (lastOne) {
+            resolve();
+          }
+        });
+      });
+    });
+  });
+};
+
+// The ledger is only there for auditing. Failing to write in it is logged but
+// it should never interrupt a request once funds have been sent.
+export const storeLedgerTransaction = function(db: Database, tableName: ledgerTable, entry: ledgerEntry, transaction: ethers.TransactionResponse) {
+  return new Promise<void>(async (resolve, reject) => {
+    const createdAt = Math.floor(DateTime.utc().toMillis() / 1000);
+    db.run(`INSERT INTO ${tableName}(userId, walletAddress, network, kind, amount, transactionHash, status, createdAt) VALUES(?, ?, ?, ?, ?, ?, ?, ?);`,
+      entry.userId, entry.walletAddress, entry.network, entry.kind ?? null, entry.amount.toString(), transaction.hash, 'pending', createdAt,
+      (error: Error | null) => {
+        if (error !== null) {
+          console.log(`Unable to store transaction ${transaction.hash} in ${tableName}. ${error}`);
+        }
+        resolve();
+      });
+  });
+};
+
+const updateLedgerTransaction = function(db: Database, tableName: ledgerTable, transactionHash: string, status: string, receipt: ethers.TransactionReceipt | null) {
+  return new Promise<void>(async (resolve, reject) => {
+    const blockNumber = receipt?.blockNumber ?? null;
+    const gasUsed = receipt?.gasUsed.toString() ?? null;
+    db.run(`UPDATE ${tableName} SET status = ?, blockNumber = ?, gasUsed = ? WHERE transactionHash = ?;`, status, blockNumber, gasUsed, transactionHash, (error: Error | null) => {
+      if (error !== null) {
+        console.log(`Unable to update transaction ${transactionHash} in ${tableName}. ${error}`);
+      }
+      resolve();
+    });
+  });
+};
+
+// Wait for the transaction confirmation and record the outcome in the ledger.
+// Errors from the transaction itself are passed on to the caller.
+export const confirmLedgerTransaction = async function(db: Database, tableName: ledgerTable, transaction: ethers.TransactionResponse, confirms: number = 1) {
+  try {
+    const receipt = await transaction.wait(confirms);
+    await updateLedgerTransaction(db, tableName, transaction.hash, 'confirmed', receipt);
+    return receipt;
+  } catch (error) {
+    const receipt = (error as { receipt?: ethers.TransactionReceipt }).receipt ?? null;
+    await updateLedgerTransaction(db, tableName, transaction.hash, 'failed', receipt);
+    throw error;
+  }
+};
+
+export const getLedgerTransactions = function(db: Database, tableName: ledgerTable, userId: string, limit: number) {
+  return new Promise<Array<ledgerTransaction>>(async (resolve, reject) => {
+    db.all(`SELECT * from ${tableName} WHERE userId = ? ORDER BY createdAt DESC LIMIT ?;`, userId, limit, (error: Error | null, rows: any[] ) => {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      resolve(rows as Array<ledgerTransaction>);
+    });
+  });
+};
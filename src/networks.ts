@@ -0,0 +1,99 @@
+import { Duration } from 'luxon';
+import { ethers } from 'ethers';
+
+import { parseBeaconEndpoints } from './beacon-nodes';
+
+export interface cheapDepositNetworkDefinition {
+  proxyContract: string;
+  tokenId: number;
+  depositCount: number;
+  depositCost: bigint;
+  withdrawalAddress: string;
+  requestTable: string;
+  channelId?: string;
+  launchpadUrl: string;
+  officialLaunchpadUrl: string;
+  faucetUrl: string;
+  gasTrackerUrl: string;
+  delay: Duration;
+};
+
+export interface networkDefinition {
+  id: string;
+  name: string;
+  testnet: boolean;
+  rpcEndpoint?: string;
+  explorerRoot: string;
+  explorerTxRoot: string;
+  validatorRoot: string;
+  // Seconds since the epoch for the genesis of the beacon chain
+  genesisTime: number;
+  // The churn is balance based from this epoch
+  electraForkEpoch: number;
+  // The queue is computed from our beacon nodes. apiQueueUrl is the
+  // beaconcha.in API used when they fail.
+  apiQueueUrl?: string;
+  // Beacon nodes watched for slashings, in order of preference. Alerts go to
+  // alertChannelId.
+  beaconApiEndpoints: Array<string>;
+  alertChannelId?: string;
+  cheapDeposit?: cheapDepositNetworkDefinition;
+};
+
+// Networks known by the bot. Slash commands are registered and dispatched from
+// these entries: queue-<id> when there are beacon nodes or apiQueueUrl is set,
+// <id>-msg and cheap-<id>-deposit when cheapDeposit is set. The network is
+// watched for slashings when it has beacon nodes.
+export const networks: Array<networkDefinition> = [
+  {
+    id: 'mainnet',
+    name: 'Mainnet',
+    testnet: false,
+    explorerRoot: 'https://beaconcha.in/',
+    explorerTxRoot: 'https://etherscan.io/tx/',
+    validatorRoot: 'https://beaconcha.in/validator/',
+    genesisTime: 1606824023,
+    electraForkEpoch: 364032,
+    apiQueueUrl: 'https://beaconcha.in/api/v1/validators/queue',
+    beaconApiEndpoints: parseBeaconEndpoints(process.env.BEACON_API_ENDPOINTS || process.env.BEACON_API_ENDPOINT),
+    alertChannelId: process.env.ALERT_CHANNEL_ID,
+  },
+  {
+    id: 'hoodi',
+    name: 'Hoodi',
+    testnet: true,
+    rpcEndpoint: process.env.HOODI_RPC_ENDPOINT,
+    explorerRoot: 'https://hoodi.beaconcha.in/',
+    explorerTxRoot: 'https://hoodi.etherscan.io/tx/',
+    validatorRoot: 'https://hoodi.beaconcha.in/validator/',
+    genesisTime: 1742213400,
+    electraForkEpoch: 2048,
+    apiQueueUrl: 'https://hoodi.beaconcha.in/api/v1/validators/queue',
+    beaconApiEndpoints: parseBeaconEndpoints(process.env.HOODI_BEACON_API_ENDPOINTS),
+    alertChannelId: process.env.HOODI_ALERT_CHANNEL_ID,
+    cheapDeposit: {
+      proxyContract: process.env.PROXY_HOODI_DEPOSIT_CONTRACT as string,
+      tokenId: 0,
+      depositCount: 2,
+      depositCost: ethers.parseUnits("0.0001", "ether"),
+      withdrawalAddress: '0x4D496CcC28058B1D74B7a19541663E21154f9c84',
+      requestTable: 'cheap_deposit_hoodi',
+      channelId: process.env.CHEAP_HOODI_VALIDATOR_CHANNEL_ID,
+      launchpadUrl: 'https://cheap.hoodi.launchpad.ethstaker.cc/',
+      officialLaunchpadUrl: 'https://hoodi.launchpad.ethereum.org',
+      faucetUrl: 'https://hoodi-faucet.pk910.de',
+      gasTrackerUrl: 'https://hoodi.beaconcha.in/gasnow',
+      delay: Duration.fromObject({ days: 20 }),
+    },
+  },
+];
+
+export const networkDisplayName = function(network: networkDefinition) {
+  return network.testnet ? `${network.name} testnet` : network.name;
+};
+
+export const hasValidatorQueue = (network: networkDefinition) => network.beaconApiEndpoints.length > 0 || network.apiQueueUrl !== undefined;
+
+export const queueCommandName = (network: networkDefinition) => `queue-${network.id}`;
+export const msgCommandName = (network: networkDefinition) => `${network.id}-msg`;
+export const cheapDepositCommandName = (network: networkDefinition) => `cheap-${network.id}-deposit`;
@@ -0,0 +1,235 @@
+import { readFileSync, existsSync } from 'fs';
+
+export type participationAlertSeverity = 'info' | 'warning' | 'critical';
+
+export const participationAlertSeverities: Array<participationAlertSeverity> = ['info', 'warning', 'critical'];
+
+// Which attestation votes the participation is computed from. Head votes tend
+// to drop first when a client has a bug, before target votes do.
+export type participationMetric = 'target' | 'head' | 'source';
+
+export const participationMetrics: Array<participationMetric> = ['target', 'head', 'source'];
+
+export const participationMetricNames: Record<participationMetric, string> = {
+  target: 'Participation rate',
+  head: 'Head vote participation',
+  source: 'Source vote participation',
+};
+
+export type participationRates = Partial<Record<participationMetric, number>>;
+
+const severityEmojis: Record<participationAlertSeverity, string> = {
+  info: 'ℹ️',
+  warning: '⚠️',
+  critical: '🚨',
+};
+
+// An alert level for the participation rate. The threshold is a fraction
+// between 0 and 1. The alert triggers when the participation rate goes below
+// the threshold and recovers once it is back at or above the threshold plus
+// the recovery margin. Thresholds without a metric are for target votes.
+//
+// Messages can use the {metric}, {network}, {label}, {rate} and {epoch}
+// placeholders.
+export interface participationAlertThreshold {
+  id: string;
+  threshold: number;
+  severity: participationAlertSeverity;
+  metric?: participationMetric;
+  label?: string;
+  recoveryMargin?: number;
+  belowMessage?: string;
+  recoveryMessage?: string;
+};
+
+// Which alert levels are currently triggered, by threshold id
+export type participationAlertState = Record<string, boolean>;
+
+export interface participationAlertEvaluation {
+  state: participationAlertState;
+  messages: Array<string>;
+};
+
+const defaultBelowMessage = '{metric} on {network} is below {label} (current: {rate} for epoch {epoch}).';
+const defaultRecoveryMessage = '{metric} on {network} is back above {label} (current: {rate} for epoch {epoch}).';
+
+// The ids match the flags we used to persist before thresholds were
+// configurable so the saved alert state is still valid.
+export const defaultParticipationAlertThresholds: Array<participationAlertThreshold> = [
+  { id: 'below90', threshold: 0.9, severity: 'warning' },
+  { id: 'below80', threshold: 0.8, severity: 'warning' },
+  { id: 'below70', threshold: 0.7, severity: 'warning' },
+  {
+    id: 'belowTwoThird',
+    threshold: 2 / 3,
+    severity: 'critical',
+    label: '2 / 3',
+    belowMessage: 'Participation rate on {network} is below {label} (current: {rate} for epoch {epoch}). Finality is compromised.',
+    recoveryMessage: 'Participation rate on {network} is back above {label} (current: {rate} for epoch {epoch}). Finality should resume.',
+  },
+  { id: 'headBelow85', threshold: 0.85, severity: 'warning', metric: 'head' },
+  { id: 'headBelow70', threshold: 0.7, severity: 'warning', metric: 'head' },
+];
+
+export const participationAlertsConfigPath = function() {
+  return process.env.PARTICIPATION_ALERTS_CONFIG_PATH || 'participation-alerts.json';
+};
+
+export const formatParticipationRate = function(rate: number) {
+  return (rate * 100.0).toLocaleString('en-US', { maximumFractionDigits: 2 }) + '%';
+};
+
+export const participationAlertMetric = function(threshold: participationAlertThreshold) {
+  return threshold.metric ?? 'target';
+};
+
+export const participationAlertLabel = function(threshold: participationAlertThreshold) {
+  return threshold.label ?? formatParticipationRate(threshold.threshold);
+};
+
+export const validateParticipationAlertThreshold = function(threshold: participationAlertThreshold) {
+  if (typeof threshold.id !== 'string' || !/^[A-Za-z0-9_-]+$/.test(threshold.id)) {
+    return `invalid id (${threshold.id})`;
+  }
+  if (typeof threshold.threshold !== 'number' || !(threshold.threshold > 0 && threshold.threshold <= 1)) {
+    return `invalid threshold (${threshold.threshold}) for ${threshold.id}, it should be between 0 and 1`;
+  }
+  if (!participationAlertSeverities.includes(threshold.severity)) {
+    return `invalid severity (${threshold.severity}) for ${threshold.id}`;
+  }
+  if (threshold.metric !== undefined && !participationMetrics.includes(threshold.metric)) {
+    return `invalid metric (${threshold.metric}) for ${threshold.id}`;
+  }
+  if (threshold.recoveryMargin !== undefined && !(threshold.recoveryMargin >= 0 && threshold.recoveryMargin < 1)) {
+    return `invalid recovery margin (${threshold.recoveryMargin}) for ${threshold.id}`;
+  }
+  return null;
+};
+
+// Highest threshold first, which is the order alerts are evaluated and listed
+export const sortParticipationAlertThresholds = function(thresholds: Array<participationAlertThreshold>) {
+  return [...thresholds].sort((a, b) => b.threshold - a.threshold);
+};
+
+// Load the alert thresholds from the JSON config file. A missing file means
+// we use the default thresholds.
+export const loadParticipationAlertThresholds = function(path: string = participationAlertsConfigPath()): Array<participationAlertThreshold> {
+  if (!existsSync(path)) {
+    return defaultParticipationAlertThresholds;
+  }
+
+  const content = JSON.parse(readFileSync(path, 'utf-8'));
+  if (!Array.isArray(content)) {
+    throw new Error(`Participation alerts config ${path} should contain an array of thresholds.`);
+  }
+
+  const thresholds = content as Array<participationAlertThreshold>;
+  const ids = new Set<string>();
+  thresholds.forEach((threshold, index) => {
+    const validationError = validateParticipationAlertThreshold(threshold);
+    if (validationError !== null) {
+      throw new Error(`Participation alert threshold ${index} in ${path} has an ${validationError}.`);
+    }
+    if (ids.has(threshold.id)) {
+      throw new Error(`Participation alert threshold ${index} in ${path} has a duplicated id (${threshold.id}).`);
+    }
+    ids.add(threshold.id);
+  });
+
+  return sortParticipationAlertThresholds(thresholds);
+};
+
+const formatAlertMessage = function(template: string, severity: participationAlertSeverity, values: Record<string, string>) {
+  const content = template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+  const emoji = severityEmojis[severity];
+  return `${emoji} ${content} ${emoji}`;
+};
+
+// Evaluate the participation rate of a single metric against its alert
+// thresholds. When the rate drops, we only announce the lowest newly triggered
+// level. When it recovers, we only announce the highest recovered level using
+// the severity of what is still triggered.
+const evaluateMetricAlerts = function(
+  metric: participationMetric,
+  thresholds: Array<participationAlertThreshold>,
+  state: participationAlertState,
+  participationRate: number,
+  network: string,
+  epoch: number) {
+
+  const newState: participationAlertState = {};
+  const newlyTriggered: Array<participationAlertThreshold> = [];
+  const recovered: Array<participationAlertThreshold> = [];
+
+  thresholds.forEach((threshold) => {
+    const triggered = state[threshold.id] ?? false;
+    if (participationRate < threshold.threshold) {
+      newState[threshold.id] = true;
+      if (!triggered) {
+        newlyTriggered.push(threshold);
+      }
+    } else if (triggered && participationRate < threshold.threshold + (threshold.recoveryMargin ?? 0)) {
+      // Inside the hysteresis band, keep the alert triggered
+      newState[threshold.id] = true;
+    } else {
+      newState[threshold.id] = false;
+      if (triggered) {
+        recovered.push(threshold);
+      }
+    }
+  });
+
+  const values = (threshold: participationAlertThreshold) => ({
+    metric: participationMetricNames[metric],
+    network: network,
+    label: participationAlertLabel(threshold),
+    rate: formatParticipationRate(participationRate),
+    epoch: epoch.toString(),
+  });
+
+  let message: string | null = null;
+  if (newlyTriggered.length > 0) {
+    const threshold = newlyTriggered[newlyTriggered.length - 1];
+    message = formatAlertMessage(threshold.belowMessage ?? defaultBelowMessage, threshold.severity, values(threshold));
+  } else if (recovered.length > 0) {
+    const threshold = recovered[0];
+    const stillTriggered = thresholds.filter((other) => newState[other.id]);
+    const severity = stillTriggered.length > 0 ? stillTriggered[stillTriggered.length - 1].severity : 'info';
+    message = formatAlertMessage(threshold.recoveryMessage ?? defaultRecoveryMessage, severity, values(threshold));
+  }
+
+  return { state: newState, message: message };
+};
+
+// Evaluate each metric independently and return the new state with at most
+// one message per metric. Metrics missing from the rates keep their state.
+export const evaluateParticipationAlerts = function(
+  thresholds: Array<participationAlertThreshold>,
+  state: participationAlertState,
+  rates: participationRates,
+  network: string,
+  epoch: number): participationAlertEvaluation {
+
+  const sortedThresholds = sortParticipationAlertThresholds(thresholds);
+  let newState: participationAlertState = {};
+  const messages: Array<string> = [];
+
+  participationMetrics.forEach((metric) => {
+    const metricThresholds = sortedThresholds.filter((threshold) => participationAlertMetric(threshold) === metric);
+    const participationRate = rates[metric];
+    if (participationRate === undefined) {
+      metricThresholds.forEach((threshold) => {
+        newState[threshold.id] = state[threshold.id] ?? false;
+      });
+      return;
+    }
+
+    const evaluation = evaluateMetricAlerts(metric, metricThresholds, state, participationRate, network, epoch);
+    newState = { ...newState, ...evaluation.state };
+    if (evaluation.message !== null) {
+      messages.push(evaluation.message);
+    }
+  });
+
+  return { state: newState, messages: messages };
+};
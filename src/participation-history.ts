@@ -0,0 +1,170 @@
+import { Database } from 'sqlite3';
+import { DateTime } from 'luxon';
+
+export interface participationEpoch {
+  network: string;
+  epoch: number;
+  activeGwei: number;
+  targetAttestingGwei: number;
+  headAttestingGwei: number;
+  // Only some beacon node versions report the source votes
+  sourceAttestingGwei: number | null;
+};
+
+export interface participationHistoryEntry extends participationEpoch {
+  targetRate: number;
+  headRate: number;
+  sourceRate: number | null;
+  createdAt: number;
+};
+
+export interface participationHistorySummary {
+  count: number;
+  firstEpoch: number;
+  lastEpoch: number;
+  min: participationHistoryEntry;
+  max: participationHistoryEntry;
+  average: number;
+  sparkline: string;
+};
+
+const sparklineCharacters = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+const maxSparklineLength = 48;
+
+export const initParticipationHistoryTable = function(db: Database) {
+  return new Promise<void>(async (resolve, reject) => {
+    db.serialize(() => {
+      db.run(`CREATE TABLE IF NOT EXISTS participation_history (network TEXT NOT NULL, epoch INTEGER NOT NULL, activeGwei INTEGER NOT NULL, targetAttestingGwei INTEGER NOT NULL, headAttestingGwei INTEGER NOT NULL, targetRate REAL NOT NULL, headRate REAL NOT NULL, createdAt INTEGER NOT NULL, PRIMARY KEY (network, epoch));`, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+      });
+
+      let hasSourceRate = false;
+      db.each(`PRAGMA table_info(participation_history);`, (error: Error | null, row: any ) => {
+        if (row.name === 'sourceRate') {
+          hasSourceRate = true;
+        }
+      }, (error: Error | null, count: number) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+
+        if (!hasSourceRate) {
+          db.run(`ALTER TABLE participation_history ADD COLUMN sourceAttestingGwei INTEGER;`, (error: Error | null) => {
+            if (error !== null) {
+              reject(error);
+              return;
+            }
+          });
+          db.run(`ALTER TABLE participation_history ADD COLUMN sourceRate REAL;`, (error: Error | null) => {
+            if (error !== null) {
+              reject(error);
+              return;
+            }
+          });
+        }
+      });
+
+      db.run(`CREATE INDEX IF NOT EXISTS participation_history_createdAt on participation_history ( network, createdAt );`, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+        resolve();
+      });
+    });
+  });
+};
+
+// Store the participation for a finished epoch. The same epoch can be checked
+// more than once if we reconnect to the beacon node so we keep the latest values.
+export const storeParticipationEpoch = function(db: Database, entry: participationEpoch) {
+  return new Promise<void>(async (resolve, reject) => {
+    const createdAt = Math.floor(DateTime.utc().toMillis() / 1000);
+    const targetRate = entry.targetAttestingGwei / entry.activeGwei;
+    const headRate = entry.headAttestingGwei / entry.activeGwei;
+    const sourceRate = entry.sourceAttestingGwei !== null ? entry.sourceAttestingGwei / entry.activeGwei : null;
+    db.run(`INSERT INTO participation_history(network, epoch, activeGwei, targetAttestingGwei, headAttestingGwei, sourceAttestingGwei, targetRate, headRate, sourceRate, createdAt) VALUES(?, ?, ?, ?, ?, ?, ?, ?, ?, ?) ` +
+      `ON CONFLICT(network, epoch) DO UPDATE SET activeGwei = excluded.activeGwei, targetAttestingGwei = excluded.targetAttestingGwei, headAttestingGwei = excluded.headAttestingGwei, sourceAttestingGwei = excluded.sourceAttestingGwei, targetRate = excluded.targetRate, headRate = excluded.headRate, sourceRate = excluded.sourceRate, createdAt = excluded.createdAt;`,
+      entry.network, entry.epoch, entry.activeGwei, entry.targetAttestingGwei, entry.headAttestingGwei, entry.sourceAttestingGwei, targetRate, headRate, sourceRate, createdAt,
+      (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+        resolve();
+      });
+  });
+};
+
+export const getParticipationHistory = function(db: Database, network: string, since: number) {
+  return new Promise<Array<participationHistoryEntry>>(async (resolve, reject) => {
+    db.all(`SELECT * from participation_history WHERE network = ? AND createdAt >= ? ORDER BY epoch ASC;`, network, since, (error: Error | null, rows: any[] ) => {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      resolve(rows as Array<participationHistoryEntry>);
+    });
+  });
+};
+
+// Build a text sparkline from the values. Long windows are averaged into
+// buckets so the line stays readable in Discord.
+export const participationSparkline = function(values: Array<number>) {
+  if (values.length === 0) {
+    return '';
+  }
+
+  const bucketCount = Math.min(values.length, maxSparklineLength);
+  const buckets: Array<number> = [];
+  for (let index = 0; index < bucketCount; index++) {
+    const start = Math.floor(index * values.length / bucketCount);
+    const end = Math.floor((index + 1) * values.length / bucketCount);
+    const bucket = values.slice(start, end);
+    buckets.push(bucket.reduce((sum, value) => sum + value, 0) / bucket.length);
+  }
+
+  const min = Math.min(...buckets);
+  const max = Math.max(...buckets);
+  const range = max - min;
+  return buckets.map((value) => {
+    if (range === 0) {
+      return sparklineCharacters[Math.floor(sparklineCharacters.length / 2)];
+    }
+    const position = Math.round((value - min) / range * (sparklineCharacters.length - 1));
+    return sparklineCharacters[position];
+  }).join('');
+};
+
+export const summarizeParticipationHistory = function(entries: Array<participationHistoryEntry>): participationHistorySummary | null {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  let min = entries[0];
+  let max = entries[0];
+  let total = 0;
+  entries.forEach((entry) => {
+    if (entry.targetRate < min.targetRate) {
+      min = entry;
+    }
+    if (entry.targetRate > max.targetRate) {
+      max = entry;
+    }
+    total += entry.targetRate;
+  });
+
+  return {
+    count: entries.length,
+    firstEpoch: entries[0].epoch,
+    lastEpoch: entries[entries.length - 1].epoch,
+    min: min,
+    max: max,
+    average: total / entries.length,
+    sparkline: participationSparkline(entries.map((entry) => entry.targetRate)),
+  };
+};
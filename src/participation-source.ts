@@ -0,0 +1,177 @@
+import axios from 'axios';
+
+import { fetchActiveValidators, sumEffectiveBalances } from './active-validators';
+
+// Where we get the participation from. The Lighthouse validator inclusion API
+// is cheap but only available on Lighthouse. The state source works on any
+// client with the standard beacon APIs. It streams the active validators and
+// queries the attestation rewards and the liveness of every one of them.
+export type participationSourceKind = 'lighthouse' | 'state';
+
+export const participationSourceKinds: Array<participationSourceKind> = ['lighthouse', 'state'];
+
+// Participation for a checked epoch. The previous epoch values are final while
+// the current epoch values can still change.
+export interface epochParticipation {
+  currentEpochActiveGwei: number;
+  currentEpochTargetAttestingGwei: number;
+  previousEpochTargetAttestingGwei: number;
+  previousEpochHeadAttestingGwei: number;
+  previousEpochSourceAttestingGwei: number | null;
+};
+
+const SLOTS_PER_EPOCH = 32;
+
+export const getParticipationSourceKind = function(): participationSourceKind {
+  const kind = (process.env.PARTICIPATION_SOURCE || 'lighthouse') as participationSourceKind;
+  if (!participationSourceKinds.includes(kind)) {
+    throw new Error(`Invalid participation source (${kind}). It should be one of ${participationSourceKinds.join(', ')}.`);
+  }
+  return kind;
+};
+
+const fetchLighthouseParticipation = async function(beaconNodeApiEndpoint: string, epoch: number): Promise<epochParticipation> {
+  const validatorInclusionUrl = beaconNodeApiEndpoint.concat(`/lighthouse/validator_inclusion/${epoch}/global`);
+  const response = await axios.get(validatorInclusionUrl,
+    { headers: {'accept': 'application/json'} });
+
+  if (response.status !== 200) {
+    throw new Error(`Unexpected status code from querying Validator Inclusion API for epoch ${epoch} details. Status code ${response.status}.`);
+  }
+
+  interface globalResponse {
+    data: {
+      current_epoch_active_gwei: number,
+      current_epoch_target_attesting_gwei: number,
+      previous_epoch_target_attesting_gwei: number,
+      previous_epoch_head_attesting_gwei: number,
+      // Source votes are not reported by all Lighthouse versions
+      previous_epoch_attesting_gwei?: number
+    }
+  };
+
+  const queryResponse = response.data as globalResponse;
+  return {
+    currentEpochActiveGwei: queryResponse.data.current_epoch_active_gwei,
+    currentEpochTargetAttestingGwei: queryResponse.data.current_epoch_target_attesting_gwei,
+    previousEpochTargetAttestingGwei: queryResponse.data.previous_epoch_target_attesting_gwei,
+    previousEpochHeadAttestingGwei: queryResponse.data.previous_epoch_head_attesting_gwei,
+    previousEpochSourceAttestingGwei: queryResponse.data.previous_epoch_attesting_gwei ?? null,
+  };
+};
+
+// Sized so a chunk of rewards stays around 10MB on Mainnet
+const participationQueryChunkSize = 100000;
+
+const chunk = function<T>(values: Array<T>, size: number) {
+  const chunks: Array<Array<T>> = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+};
+
+// Head, target and source votes for the previous epoch from the attestation
+// rewards. A missed target or source vote is always penalized so a non negative
+// reward means a timely vote. Head votes are never penalized and not rewarded
+// during an inactivity leak, so they are undercounted then.
+const fetchPreviousEpochVotes = async function(beaconNodeApiEndpoint: string, epoch: number, indices: Array<number>, attestingBalances: Float64Array) {
+  interface attestationRewardsResponse {
+    data: {
+      total_rewards: Array<{
+        validator_index: string,
+        head: string,
+        target: string,
+        source: string
+      }>
+    }
+  };
+
+  const votes = {
+    targetGwei: BigInt(0),
+    headGwei: BigInt(0),
+    sourceGwei: BigInt(0),
+  };
+  for (const chunkIndices of chunk(indices, participationQueryChunkSize)) {
+    const response = await axios.post(beaconNodeApiEndpoint.concat(`/eth/v1/beacon/rewards/attestations/${epoch}`),
+      chunkIndices.map((index) => index.toString()),
+      { headers: {'accept': 'application/json'} });
+
+    if (response.status !== 200) {
+      throw new Error(`Unexpected status code from querying the attestation rewards for epoch ${epoch}. Status code ${response.status}.`);
+    }
+
+    (response.data as attestationRewardsResponse).data.total_rewards.forEach((reward) => {
+      const effectiveBalance = BigInt(attestingBalances[parseInt(reward.validator_index)] ?? 0);
+      if (parseInt(reward.target) >= 0) {
+        votes.targetGwei += effectiveBalance;
+      }
+      if (parseInt(reward.head) > 0) {
+        votes.headGwei += effectiveBalance;
+      }
+      if (parseInt(reward.source) >= 0) {
+        votes.sourceGwei += effectiveBalance;
+      }
+    });
+  }
+  return votes;
+};
+
+// The current epoch can not have rewards yet. The liveness API tells which
+// validators attested in it, which we count as target votes.
+const fetchCurrentEpochLiveGwei = async function(beaconNodeApiEndpoint: string, epoch: number, indices: Array<number>, attestingBalances: Float64Array) {
+  interface livenessResponse {
+    data: Array<{ index: string, is_live: boolean }>
+  };
+
+  let liveGwei = BigInt(0);
+  for (const chunkIndices of chunk(indices, participationQueryChunkSize)) {
+    const response = await axios.post(beaconNodeApiEndpoint.concat(`/eth/v1/validator/liveness/${epoch}`),
+      chunkIndices.map((index) => index.toString()),
+      { headers: {'accept': 'application/json'} });
+
+    if (response.status !== 200) {
+      throw new Error(`Unexpected status code from querying the validator liveness for epoch ${epoch}. Status code ${response.status}.`);
+    }
+
+    (response.data as livenessResponse).data.forEach((entry) => {
+      if (entry.is_live) {
+        liveGwei += BigInt(attestingBalances[parseInt(entry.index)] ?? 0);
+      }
+    });
+  }
+  return liveGwei;
+};
+
+// Compute the participation from the active validators at the last slot of the
+// epoch, the attestation rewards of the previous epoch and the liveness of the
+// epoch. It only uses standard beacon APIs and never loads the full state.
+const fetchStateParticipation = async function(beaconNodeApiEndpoint: string, epoch: number): Promise<epochParticipation> {
+  const slot = (epoch + 1) * SLOTS_PER_EPOCH - 1;
+  const validators = await fetchActiveValidators(beaconNodeApiEndpoint, slot.toString());
+
+  // Slashed validators are active but their votes do not count
+  const lastIndex = validators.indices.length > 0 ? validators.indices[validators.indices.length - 1] : -1;
+  const attestingBalances = new Float64Array(lastIndex + 1);
+  validators.indices.forEach((index, position) => {
+    attestingBalances[index] = validators.slashed[position] ? 0 : validators.effectiveBalances[position];
+  });
+
+  const previousEpochVotes = await fetchPreviousEpochVotes(beaconNodeApiEndpoint, epoch - 1, validators.indices, attestingBalances);
+  const currentEpochLiveGwei = await fetchCurrentEpochLiveGwei(beaconNodeApiEndpoint, epoch, validators.indices, attestingBalances);
+
+  return {
+    currentEpochActiveGwei: Number(sumEffectiveBalances(validators)),
+    currentEpochTargetAttestingGwei: Number(currentEpochLiveGwei),
+    previousEpochTargetAttestingGwei: Number(previousEpochVotes.targetGwei),
+    previousEpochHeadAttestingGwei: Number(previousEpochVotes.headGwei),
+    previousEpochSourceAttestingGwei: Number(previousEpochVotes.sourceGwei),
+  };
+};
+
+export const fetchEpochParticipation = function(beaconNodeApiEndpoint: string, epoch: number, kind: participationSourceKind) {
+  if (kind === 'state') {
+    return fetchStateParticipation(beaconNodeApiEndpoint, epoch);
+  }
+  return fetchLighthouseParticipation(beaconNodeApiEndpoint, epoch);
+};
@@ -0,0 +1,86 @@
+import { PermissionFlagsBits } from 'discord-api-types/v9';
+
+import { faucetDefinition, faucetCommandName } from './faucets';
+
+// Capabilities are ordered: an admin is also a moderator and a moderator is
+// also verified.
+export type capability = 'verified' | 'moderator' | 'admin';
+
+const capabilityLevels: Record<capability, number> = {
+  verified: 1,
+  moderator: 2,
+  admin: 3,
+};
+
+const parseRoleIds = function(value: string | undefined) {
+  return (value ?? '').split(',').map((roleId) => roleId.trim()).filter((roleId) => roleId !== '');
+};
+
+const capabilityRoles: Record<capability, Set<string>> = {
+  verified: new Set<string>([...parseRoleIds(process.env.ROLE_IDS), ...parseRoleIds(process.env.PASSPORT_ROLE_ID)]),
+  moderator: new Set<string>(parseRoleIds(process.env.MODERATOR_ROLE_IDS)),
+  admin: new Set<string>(parseRoleIds(process.env.ADMIN_ROLE_IDS)),
+};
+
+const staticCommandCapabilities: Array<[string, capability]> = [
+  ['participation-mainnet-auto', 'admin'],
+  ['participation-alerts', 'admin'],
+  ['queue-mainnet-auto', 'admin'],
+  ['user-info', 'moderator'],
+  ['wallet-lookup', 'moderator'],
+  ['cheap-deposit-reset', 'moderator'],
+  ['cheap-deposit-grant', 'moderator'],
+];
+
+// Commands without a capability are available to everyone.
+export const getCommandCapabilities = function(faucets: Array<faucetDefinition>) {
+  const commandCapabilities = new Map<string, capability>(staticCommandCapabilities);
+  faucets.forEach((faucet) => {
+    if (faucet.needsVerification) {
+      commandCapabilities.set(faucetCommandName(faucet), 'verified');
+    }
+  });
+  return commandCapabilities;
+};
+
+export const userCapability = function(userId: string, roleIds: Array<string>): capability | null {
+  if (userId === process.env.MASTER_USER_ID) {
+    return 'admin';
+  }
+
+  const levels: Array<capability> = ['admin', 'moderator', 'verified'];
+  const found = levels.find((level) => roleIds.some((roleId) => capabilityRoles[level].has(roleId)));
+  return found ?? null;
+};
+
+const meetsCapability = function(userId: string, roleIds: Array<string>, required: capability) {
+  const current = userCapability(userId, roleIds);
+  return current !== null && capabilityLevels[current] >= capabilityLevels[required];
+};
+
+// Gates commands. Verified commands are open to everyone when no verified
+// role is configured.
+export const hasCapability = function(userId: string, roleIds: Array<string>, required: capability) {
+  if (required === 'verified' && capabilityRoles.verified.size === 0) {
+    return true;
+  }
+  return meetsCapability(userId, roleIds, required);
+};
+
+// Whether a user holds a verified role. Nobody is verified when no verified
+// role is configured.
+export const isVerified = function(userId: string, roleIds: Array<string>) {
+  return meetsCapability(userId, roleIds, 'verified');
+};
+
+// Default member permissions only hide the commands in the Discord client.
+// Server admins can adjust them in the integration settings. The role check in
+// hasCapability is what is actually enforced.
+export const defaultMemberPermissions = function(required: capability | undefined) {
+  if (required === 'admin') {
+    return PermissionFlagsBits.ManageGuild;
+  } else if (required === 'moderator') {
+    return PermissionFlagsBits.ModerateMembers;
+  }
+  return null;
+};
@@ -0,0 +1,109 @@
+import { Database } from 'sqlite3';
+import { DateTime } from 'luxon';
+
+import { participationSparkline } from './participation-history';
+
+// A sample of the activation and exit queues. Balances are only known after
+// Electra. Waits are the estimated days to clear each queue.
+export interface queueSample {
+  network: string;
+  epoch: number;
+  entering: number;
+  exiting: number;
+  enteringEth: number | null;
+  exitingEth: number | null;
+  activationWaitDays: number;
+  exitWaitDays: number;
+  source: string;
+};
+
+export interface queueHistoryEntry extends queueSample {
+  createdAt: number;
+};
+
+export interface queueHistorySummary {
+  count: number;
+  first: queueHistoryEntry;
+  last: queueHistoryEntry;
+  maxActivationWait: queueHistoryEntry;
+  maxExitWait: queueHistoryEntry;
+  activationWaitSparkline: string;
+  exitWaitSparkline: string;
+};
+
+export const initQueueHistoryTable = function(db: Database) {
+  return new Promise<void>(async (resolve, reject) => {
+    db.serialize(() => {
+      db.run(`CREATE TABLE IF NOT EXISTS queue_history (network TEXT NOT NULL, epoch INTEGER NOT NULL, entering INTEGER NOT NULL, exiting INTEGER NOT NULL, enteringEth REAL, exitingEth REAL, activationWaitDays REAL NOT NULL, exitWaitDays REAL NOT NULL, source TEXT NOT NULL, createdAt INTEGER NOT NULL, PRIMARY KEY (network, epoch));`, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+      });
+
+      db.run(`CREATE INDEX IF NOT EXISTS queue_history_createdAt on queue_history ( network, createdAt );`, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+        resolve();
+      });
+    });
+  });
+};
+
+// The queue is cached per epoch so sampling twice in the same epoch gives the
+// same values. We keep the latest one.
+export const storeQueueSample = function(db: Database, sample: queueSample) {
+  return new Promise<void>(async (resolve, reject) => {
+    const createdAt = Math.floor(DateTime.utc().toMillis() / 1000);
+    db.run(`INSERT OR REPLACE INTO queue_history(network, epoch, entering, exiting, enteringEth, exitingEth, activationWaitDays, exitWaitDays, source, createdAt) VALUES(?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+      sample.network, sample.epoch, sample.entering, sample.exiting, sample.enteringEth, sample.exitingEth, sample.activationWaitDays, sample.exitWaitDays, sample.source, createdAt,
+      (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+        resolve();
+      });
+  });
+};
+
+export const getQueueHistory = function(db: Database, network: string, since: number) {
+  return new Promise<Array<queueHistoryEntry>>(async (resolve, reject) => {
+    db.all(`SELECT * from queue_history WHERE network = ? AND createdAt >= ? ORDER BY epoch ASC;`, network, since, (error: Error | null, rows: any[] ) => {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      resolve(rows as Array<queueHistoryEntry>);
+    });
+  });
+};
+
+export const summarizeQueueHistory = function(entries: Array<queueHistoryEntry>): queueHistorySummary | null {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  let maxActivationWait = entries[0];
+  let maxExitWait = entries[0];
+  entries.forEach((entry) => {
+    if (entry.activationWaitDays > maxActivationWait.activationWaitDays) {
+      maxActivationWait = entry;
+    }
+    if (entry.exitWaitDays > maxExitWait.exitWaitDays) {
+      maxExitWait = entry;
+    }
+  });
+
+  return {
+    count: entries.length,
+    first: entries[0],
+    last: entries[entries.length - 1],
+    maxActivationWait: maxActivationWait,
+    maxExitWait: maxExitWait,
+    activationWaitSparkline: participationSparkline(entries.map((entry) => entry.activationWaitDays)),
+    exitWaitSparkline: participationSparkline(entries.map((entry) => entry.exitWaitDays)),
+  };
+};
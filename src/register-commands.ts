@@ -5,20 +5,200 @@ import { SlashCommandBuilder } from '@discordjs/builders';
 import { REST } from '@discordjs/rest';
 import { Routes } from 'discord-api-types/v9';
 
+import { networks, networkDisplayName, hasValidatorQueue, queueCommandName, msgCommandName, cheapDepositCommandName } from './networks';
+import { loadFaucetDefinitions, faucetCommandName } from './faucets';
+import { getCommandCapabilities, defaultMemberPermissions } from './permissions';
+import { participationAlertSeverities, participationMetrics } from './participation-alerts';
+
 const clientId = process.env.DISCORD_CLIENT_ID as string;
 const guildId = process.env.DISCORD_GUILD_ID as string;
 const token = process.env.DISCORD_TOKEN as string;
 
+const networkCommands = networks.flatMap(network => {
+  const displayName = networkDisplayName(network);
+  const builders = [];
+
+  if (hasValidatorQueue(network)) {
+    builders.push(new SlashCommandBuilder().setName(queueCommandName(network))
+      .setDescription(`Get validators activation and exit queue details from ${displayName}.`));
+  }
+  if (network.cheapDeposit !== undefined) {
+    builders.push(new SlashCommandBuilder()
+      .setName(msgCommandName(network))
+      .setDescription(`Explain how to do a validator deposit or get ETH on ${network.name}.`)
+      .addUserOption(option => option
+        .setName('user')
+        .setDescription('An optional user to ping with the message.')
+        .setRequired(false)));
+    builders.push(new SlashCommandBuilder()
+      .setName(cheapDepositCommandName(network))
+      .setDescription(`Obtain some cheap and easy ${network.name} validator deposits.`));
+  }
+
+  return builders;
+});
+
+const cheapDepositNetworkChoices = networks
+  .filter(network => network.cheapDeposit !== undefined)
+  .map(network => ({ name: network.name, value: network.id }));
+
+const networkChoices = networks.map(network => ({ name: network.name, value: network.id }));
+
+const validatorCommands = [
+  new SlashCommandBuilder()
+    .setName('queue-position')
+    .setDescription('Estimate when a pending validator or its deposit will be activated.')
+    .addStringOption(option => option
+      .setName('index_or_pubkey')
+      .setDescription('The validator index or pubkey. Use the pubkey for a deposit that is still pending.')
+      .setRequired(true))
+    .addStringOption(option => option
+      .setName('network')
+      .setDescription('The network for this validator. Mainnet by default.')
+      .setRequired(false)
+      .addChoices(...networkChoices)),
+  new SlashCommandBuilder()
+    .setName('validator')
+    .setDescription('Get the status of a validator.')
+    .addStringOption(option => option
+      .setName('index_or_pubkey')
+      .setDescription('The validator index or pubkey.')
+      .setRequired(true))
+    .addStringOption(option => option
+      .setName('network')
+      .setDescription('The network for this validator. Mainnet by default.')
+      .setRequired(false)
+      .addChoices(...networkChoices)),
+  new SlashCommandBuilder()
+    .setName('watch-validator')
+    .setDescription('Get a direct message when your validator misses duties, gets slashed or exits.')
+    .addStringOption(option => option
+      .setName('index_or_pubkey')
+      .setDescription('The validator index or pubkey to watch.')
+      .setRequired(true))
+    .addStringOption(option => option
+      .setName('network')
+      .setDescription('The network for this validator. Mainnet by default.')
+      .setRequired(false)
+      .addChoices(...networkChoices)),
+  new SlashCommandBuilder()
+    .setName('unwatch-validator')
+    .setDescription('Stop watching a validator.')
+    .addStringOption(option => option
+      .setName('index_or_pubkey')
+      .setDescription('The validator index or pubkey to stop watching.')
+      .setRequired(true))
+    .addStringOption(option => option
+      .setName('network')
+      .setDescription('The network for this validator. Mainnet by default.')
+      .setRequired(false)
+      .addChoices(...networkChoices)),
+];
+
+const cheapDepositAdminCommands = [
+  new SlashCommandBuilder()
+    .setName('cheap-deposit-reset')
+    .setDescription('Clear the cheap deposits cooldown for a member. Only for moderators.')
+    .addStringOption(option => option
+      .setName('network')
+      .setDescription('The network for the cheap deposits.')
+      .setRequired(true)
+      .addChoices(...cheapDepositNetworkChoices))
+    .addUserOption(option => option
+      .setName('user')
+      .setDescription('The member to reset.')
+      .setRequired(true))
+    .addStringOption(option => option
+      .setName('reason')
+      .setDescription('Why this member is being reset.')
+      .setRequired(true))
+    .addBooleanOption(option => option
+      .setName('unlink_wallet')
+      .setDescription('Also unlink the wallet address so it can be used by another member.')
+      .setRequired(false)),
+  new SlashCommandBuilder()
+    .setName('cheap-deposit-grant')
+    .setDescription('Allow extra cheap deposits requests for a member during the cooldown. Only for moderators.')
+    .addStringOption(option => option
+      .setName('network')
+      .setDescription('The network for the cheap deposits.')
+      .setRequired(true)
+      .addChoices(...cheapDepositNetworkChoices))
+    .addUserOption(option => option
+      .setName('user')
+      .setDescription('The member receiving the extra requests.')
+      .setRequired(true))
+    .addIntegerOption(option => option
+      .setName('count')
+      .setDescription('The number of extra requests allowed. Use 0 to remove existing grants.')
+      .setRequired(true)
+      .setMinValue(0)
+      .setMaxValue(10))
+    .addStringOption(option => option
+      .setName('reason')
+      .setDescription('Why this member is receiving extra requests.')
+      .setRequired(true)),
+];
+
+const faucetDefinitions = loadFaucetDefinitions();
+const commandCapabilities = getCommandCapabilities(faucetDefinitions);
+
+const faucetCommands = faucetDefinitions.map(faucet => new SlashCommandBuilder()
+  .setName(faucetCommandName(faucet))
+  .setDescription(`Request ${faucet.currency} from the ${faucet.network} faucet.`)
+  .addStringOption(option => option
+    .setName('address')
+    .setDescription(`The wallet address or ENS name that will receive the ${faucet.currency}.`)
+    .setRequired(true)));
+
 const commands = [
 	new SlashCommandBuilder().setName('ping').setDescription('Replies with pong!'),
-  new SlashCommandBuilder().setName('queue-mainnet')
-    .setDescription('Get validators activation and exit queue details from Mainnet.'),
-  new SlashCommandBuilder().setName('queue-holesky')
-    .setDescription('Get validators activation and exit queue details from Holesky testnet.'),
-  new SlashCommandBuilder().setName('queue-hoodi')
-    .setDescription('Get validators activation and exit queue details from Hoodi testnet.'),
   new SlashCommandBuilder().setName('participation-mainnet')
     .setDescription('Get the current participation rate on Mainnet.'),
+  new SlashCommandBuilder()
+    .setName('participation-history')
+    .setDescription('Get the participation rate trend on Mainnet.')
+    .addIntegerOption(option => option
+      .setName('hours')
+      .setDescription('How many hours of history to include.')
+      .setRequired(true)
+      .setMinValue(1)
+      .setMaxValue(168)),
+  new SlashCommandBuilder()
+    .setName('queue-history')
+    .setDescription('Get how the validator activation and exit queues changed.')
+    .addIntegerOption(option => option
+      .setName('days')
+      .setDescription('How many days of history to include.')
+      .setRequired(true)
+      .setMinValue(1)
+      .setMaxValue(30))
+    .addStringOption(option => option
+      .setName('network')
+      .setDescription('The network for the queues. Mainnet by default.')
+      .setRequired(false)
+      .addChoices(...networks.filter(hasValidatorQueue).map(network => ({ name: network.name, value: network.id })))),
+  new SlashCommandBuilder()
+    .setName('chain-health')
+    .setDescription('Get missed slots and reorgs on Mainnet for the last epochs.')
+    .addIntegerOption(option => option
+      .setName('epochs')
+      .setDescription('How many finished epochs to include. 10 by default.')
+      .setRequired(false)
+      .setMinValue(1)
+      .setMaxValue(225)),
+  new SlashCommandBuilder()
+    .setName('slashings')
+    .setDescription('Get slashings seen by the bot.')
+    .addSubcommand(subcommand => subcommand
+      .setName('recent')
+      .setDescription('List the most recent slashings.')
+      .addIntegerOption(option => option
+        .setName('count')
+        .setDescription('How many slashings to list. 10 by default.')
+        .setRequired(false)
+        .setMinValue(1)
+        .setMaxValue(25))),
   new SlashCommandBuilder()
     .setName('participation-mainnet-auto')
     .setDescription('Auto post the current participation rate on Mainnet. Only for my master.')
@@ -26,6 +206,54 @@ const commands = [
       .setName('enabled')
       .setDescription('Enable or disable auto posting the participation rate.')
       .setRequired(true)),
+  new SlashCommandBuilder()
+    .setName('queue-mainnet-auto')
+    .setDescription('Auto post a daily validator queue report for Mainnet. Only for admins.')
+    .addBooleanOption(option => option
+      .setName('enabled')
+      .setDescription('Enable or disable auto posting the queue report.')
+      .setRequired(true)),
+  new SlashCommandBuilder()
+    .setName('participation-alerts')
+    .setDescription('List or edit the participation rate alert thresholds. Only for admins.')
+    .addStringOption(option => option
+      .setName('action')
+      .setDescription('What to do with the thresholds.')
+      .setRequired(true)
+      .addChoices(
+        { name: 'List', value: 'list' },
+        { name: 'Add or update', value: 'set' },
+        { name: 'Remove', value: 'remove' }))
+    .addStringOption(option => option
+      .setName('id')
+      .setDescription('The threshold id to add, update or remove.')
+      .setRequired(false))
+    .addNumberOption(option => option
+      .setName('percent')
+      .setDescription('Alert when the participation rate goes below this percentage.')
+      .setRequired(false)
+      .setMinValue(0)
+      .setMaxValue(100))
+    .addStringOption(option => option
+      .setName('severity')
+      .setDescription('How serious it is when this threshold is crossed.')
+      .setRequired(false)
+      .addChoices(...participationAlertSeverities.map(severity => ({ name: severity, value: severity }))))
+    .addStringOption(option => option
+      .setName('metric')
+      .setDescription('Which attestation votes this threshold applies to. Target votes by default.')
+      .setRequired(false)
+      .addChoices(...participationMetrics.map(metric => ({ name: metric, value: metric }))))
+    .addStringOption(option => option
+      .setName('label')
+      .setDescription('An optional label for the threshold in alerts, like 2 / 3.')
+      .setRequired(false))
+    .addNumberOption(option => option
+      .setName('recovery_margin')
+      .setDescription('Only recover once the participation rate is this many points above the threshold.')
+      .setRequired(false)
+      .setMinValue(0)
+      .setMaxValue(10)),
   new SlashCommandBuilder()
     .setName('sepolia-eth-msg')
     .setDescription('Explain how to get Sepolia ETH to someone else.')
@@ -34,30 +262,30 @@ const commands = [
       .setDescription('An optional user to ping with the message.')
       .setRequired(false)),
   new SlashCommandBuilder()
-    .setName('holesky-msg')
-    .setDescription('Explain how to do a validator deposit or get ETH on Holesky.')
+    .setName('user-info')
+    .setDescription('Show what I know about a member. Only for moderators.')
     .addUserOption(option => option
       .setName('user')
-      .setDescription('An optional user to ping with the message.')
-      .setRequired(false)),
+      .setDescription('The member to look up.')
+      .setRequired(true)),
   new SlashCommandBuilder()
-    .setName('hoodi-msg')
-    .setDescription('Explain how to do a validator deposit or get ETH on Hoodi.')
-    .addUserOption(option => option
-      .setName('user')
-      .setDescription('An optional user to ping with the message.')
-      .setRequired(false)),
+    .setName('wallet-lookup')
+    .setDescription('Find which members are linked to a wallet address. Only for moderators.')
+    .addStringOption(option => option
+      .setName('address')
+      .setDescription('The wallet address or ENS name to look up.')
+      .setRequired(true)),
   new SlashCommandBuilder()
     .setName('verify-passport')
     .setDescription('Verify your Gitcoin Passport created on https://passport.gitcoin.co/.'),
-  new SlashCommandBuilder()
-    .setName('cheap-holesky-deposit')
-    .setDescription('Obtain some cheap and easy Holesky validator deposits.'),
-  new SlashCommandBuilder()
-    .setName('cheap-hoodi-deposit')
-    .setDescription('Obtain some cheap and easy Hoodi validator deposits.'),
+  ...networkCommands,
+  ...validatorCommands,
+  ...cheapDepositAdminCommands,
+  ...faucetCommands,
 ]
-	.map(command => command.toJSON());
+	.map(command => command
+    .setDefaultMemberPermissions(defaultMemberPermissions(commandCapabilities.get(command.name)))
+    .toJSON());
 
 const rest = new REST({ version: '9' }).setToken(token);
 
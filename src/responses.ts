@@ -0,0 +1,92 @@
+import { EmbedBuilder } from 'discord.js';
+
+import { participationAlertSeverity } from './participation-alerts';
+
+export type responseSeverity = 'success' | participationAlertSeverity;
+
+const severityColors: Record<responseSeverity, number> = {
+  success: 0x2ECC71,
+  info: 0x3498DB,
+  warning: 0xF1C40F,
+  critical: 0xE74C3C,
+};
+
+// Discord limits for embeds
+const maxDescriptionLength = 4096;
+const maxFieldValueLength = 1024;
+const maxFields = 25;
+
+export interface responseField {
+  name: string;
+  value: string;
+  inline?: boolean;
+};
+
+// The result of a command. It is shown as an embed on Discord and as plain
+// text in the logs. source is where the data comes from and timestamp is when
+// it was obtained in milliseconds, now by default.
+export interface commandResponse {
+  title: string;
+  description?: string;
+  url?: string;
+  fields?: Array<responseField>;
+  severity: responseSeverity;
+  source?: string;
+  timestamp?: number;
+};
+
+const truncate = function(value: string, length: number) {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+};
+
+export const responseEmbed = function(response: commandResponse) {
+  const embed = new EmbedBuilder()
+    .setTitle(response.title)
+    .setColor(severityColors[response.severity])
+    .setTimestamp(response.timestamp ?? Date.now());
+
+  if (response.description !== undefined && response.description !== '') {
+    embed.setDescription(truncate(response.description, maxDescriptionLength));
+  }
+  if (response.url !== undefined) {
+    embed.setURL(response.url);
+  }
+  if (response.fields !== undefined && response.fields.length > 0) {
+    embed.addFields(response.fields.slice(0, maxFields).map((field) => ({
+      name: field.name,
+      value: truncate(field.value, maxFieldValueLength),
+      inline: field.inline ?? false,
+    })));
+  }
+  if (response.source !== undefined) {
+    embed.setFooter({ text: `Source: ${response.source}` });
+  }
+  return embed;
+};
+
+export const responseText = function(response: commandResponse) {
+  const lines = [response.title];
+  if (response.description !== undefined && response.description !== '') {
+    lines.push(response.description);
+  }
+  (response.fields ?? []).forEach((field) => {
+    lines.push(`- ${field.name}: ${field.value}`);
+  });
+  if (response.url !== undefined) {
+    lines.push(response.url);
+  }
+  if (response.source !== undefined) {
+    lines.push(`Source: ${response.source}`);
+  }
+  return lines.join('\n');
+};
+
+// Message options for a reply, a follow up or a channel message. The mention
+// stays in the content since mentions in embeds do not notify.
+export const responseMessage = function(response: commandResponse, mention?: string) {
+  return {
+    content: mention ?? '',
+    embeds: [responseEmbed(response)],
+    allowedMentions: { parse: ['users' as const], repliedUser: false },
+  };
+};
@@ -0,0 +1,172 @@
+import { readFileSync, existsSync } from 'fs';
+import { Database, RunResult } from 'sqlite3';
+import { DateTime } from 'luxon';
+import axios from 'axios';
+
+export type slashingKind = 'attester' | 'proposer';
+
+export interface slashedValidator {
+  validatorIndex: number;
+  kind: slashingKind;
+};
+
+// Balances are in gwei and epochs are strings since the far future epoch does
+// not fit in a number.
+export interface validatorDetails {
+  index: number;
+  pubkey: string;
+  withdrawalCredentials: string;
+  balance: string;
+  effectiveBalance: string;
+  status: string;
+  slashed: boolean;
+  activationEligibilityEpoch: string;
+  activationEpoch: string;
+  exitEpoch: string;
+  withdrawableEpoch: string;
+};
+
+export interface slashingEvent {
+  network: string;
+  slot: number;
+  validatorIndex: number;
+  kind: slashingKind;
+  pubkey: string | null;
+  withdrawalCredentials: string | null;
+  balance: string | null;
+  label: string | null;
+};
+
+export interface storedSlashingEvent extends slashingEvent {
+  createdAt: number;
+};
+
+export const initSlashingEventTable = function(db: Database) {
+  return new Promise<void>(async (resolve, reject) => {
+    db.serialize(() => {
+      db.run(`CREATE TABLE IF NOT EXISTS slashing_event (network TEXT NOT NULL, slot INTEGER NOT NULL, validatorIndex INTEGER NOT NULL, kind TEXT NOT NULL, pubkey TEXT, withdrawalCredentials TEXT, balance TEXT, label TEXT, createdAt INTEGER NOT NULL, PRIMARY KEY (network, slot, validatorIndex));`, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+      });
+
+      db.run(`CREATE INDEX IF NOT EXISTS slashing_event_createdAt on slashing_event ( createdAt );`, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+        resolve();
+      });
+    });
+  });
+};
+
+// Store a slashing event. Resolves with false when we already had it, which
+// happens when the same block is seen twice.
+export const storeSlashingEvent = function(db: Database, event: slashingEvent) {
+  return new Promise<boolean>(async (resolve, reject) => {
+    const createdAt = Math.floor(DateTime.utc().toMillis() / 1000);
+    db.run(`INSERT OR IGNORE INTO slashing_event(network, slot, validatorIndex, kind, pubkey, withdrawalCredentials, balance, label, createdAt) VALUES(?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+      event.network, event.slot, event.validatorIndex, event.kind, event.pubkey, event.withdrawalCredentials, event.balance, event.label, createdAt,
+      function (this: RunResult, error: Error | null) {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+        resolve(this.changes > 0);
+      });
+  });
+};
+
+export const getRecentSlashingEvents = function(db: Database, limit: number) {
+  return new Promise<Array<storedSlashingEvent>>(async (resolve, reject) => {
+    db.all(`SELECT * from slashing_event ORDER BY createdAt DESC, slot DESC LIMIT ?;`, limit, (error: Error | null, rows: any[] ) => {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      resolve(rows as Array<storedSlashingEvent>);
+    });
+  });
+};
+
+export const isSlashingEventKnown = function(db: Database, network: string, slot: number, validatorIndex: number) {
+  return new Promise<boolean>(async (resolve, reject) => {
+    db.get(`SELECT slot from slashing_event WHERE network = ? AND slot = ? AND validatorIndex = ?;`, network, slot, validatorIndex, (error: Error | null, row: any ) => {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      resolve(row !== undefined);
+    });
+  });
+};
+
+export const validatorLabelsPath = function() {
+  return process.env.VALIDATOR_LABELS_PATH || 'validator-labels.json';
+};
+
+// Load the operator or pool names for known validators. The file is a JSON
+// object with validator indices or pubkeys as keys. A missing file means we do
+// not know any validator.
+export const loadValidatorLabels = function(path: string = validatorLabelsPath()) {
+  const labels = new Map<string, string>();
+  if (!existsSync(path)) {
+    return labels;
+  }
+
+  const content = JSON.parse(readFileSync(path, 'utf-8'));
+  if (content === null || typeof content !== 'object' || Array.isArray(content)) {
+    throw new Error(`Validator labels ${path} should contain an object of validator indices or pubkeys to names.`);
+  }
+
+  Object.entries(content).forEach(([key, label]) => {
+    if (typeof label !== 'string') {
+      throw new Error(`Validator label for ${key} in ${path} should be a string.`);
+    }
+    labels.set(key.toLowerCase(), label);
+  });
+  return labels;
+};
+
+export const getValidatorLabel = function(labels: Map<string, string>, validatorIndex: number, pubkey: string | null) {
+  return labels.get(validatorIndex.toString()) ?? (pubkey !== null ? labels.get(pubkey.toLowerCase()) : undefined) ?? null;
+};
+
+export const fetchValidatorDetails = async function(beaconNodeApiEndpoint: string, stateId: string, validatorId: string): Promise<validatorDetails> {
+  interface validatorResponse {
+    data: {
+      index: string,
+      balance: string,
+      status: string,
+      validator: {
+        pubkey: string,
+        withdrawal_credentials: string,
+        effective_balance: string,
+        slashed: boolean,
+        activation_eligibility_epoch: string,
+        activation_epoch: string,
+        exit_epoch: string,
+        withdrawable_epoch: string
+      }
+    }
+  };
+
+  const response = await axios.get(beaconNodeApiEndpoint.concat(`/eth/v1/beacon/states/${stateId}/validators/${validatorId}`),
+    { headers: {'accept': 'application/json'} });
+  const data = (response.data as validatorResponse).data;
+  return {
+    index: parseInt(data.index),
+    pubkey: data.validator.pubkey,
+    withdrawalCredentials: data.validator.withdrawal_credentials,
+    balance: data.balance,
+    effectiveBalance: data.validator.effective_balance,
+    status: data.status,
+    slashed: data.validator.slashed,
+    activationEligibilityEpoch: data.validator.activation_eligibility_epoch,
+    activationEpoch: data.validator.activation_epoch,
+    exitEpoch: data.validator.exit_epoch,
+    withdrawableEpoch: data.validator.withdrawable_epoch,
+  };
+};
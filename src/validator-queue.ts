@@ -0,0 +1,308 @@
+import axios from 'axios';
+
+import { SLOTS_PER_EPOCH } from './chain-health';
+import { activeValidators, fetchActiveValidators, sumEffectiveBalances } from './active-validators';
+
+const SECONDS_PER_SLOT = 12;
+
+// Electra churn constants in gwei
+const GWEI_PER_ETH = BigInt(1000000000);
+const EFFECTIVE_BALANCE_INCREMENT = GWEI_PER_ETH;
+const MIN_PER_EPOCH_CHURN_LIMIT_ELECTRA = BigInt(128) * GWEI_PER_ETH;
+const MAX_PER_EPOCH_ACTIVATION_EXIT_CHURN_LIMIT = BigInt(256) * GWEI_PER_ETH;
+const CHURN_LIMIT_QUOTIENT = BigInt(65536);
+
+// Only used with beaconcha.in which does not give us balances
+const ASSUMED_VALIDATOR_BALANCE = BigInt(32) * GWEI_PER_ETH;
+
+export type validatorQueueSource = 'beacon node' | 'beaconcha.in';
+
+// Since Electra the churn is in gwei and the activation queue is the pending
+// deposits queue. Exits include partial withdrawals. pendingPartialWithdrawals
+// and pendingConsolidations are null when the source does not have them.
+// approximate is set when balances were guessed from validator counts.
+export interface validatorQueueBalances {
+  totalActiveGwei: bigint;
+  pendingDeposits: number;
+  enteringGwei: bigint;
+  exitingGwei: bigint;
+  pendingPartialWithdrawals: number | null;
+  pendingConsolidations: number | null;
+  approximate: boolean;
+};
+
+// entering and exiting are validator counts before Electra and pending
+// deposits and exiting validators after. activeValidators is null when the
+// source did not tell us. balances is only set after Electra.
+export interface validatorQueue {
+  epoch: number;
+  entering: number;
+  exiting: number;
+  activeValidators: number | null;
+  balances: validatorQueueBalances | null;
+  source: validatorQueueSource;
+};
+
+export interface pendingDeposit {
+  pubkey: string;
+  amount: bigint;
+};
+
+export interface pendingQueuedValidator {
+  index: number;
+  activationEligibilityEpoch: number;
+};
+
+// position starts at 1. gweiAhead includes the deposit itself since it has to
+// be processed too.
+export interface pendingDepositPosition {
+  position: number;
+  queueLength: number;
+  amount: bigint;
+  gweiAhead: bigint;
+};
+
+export interface activationQueuePosition {
+  position: number;
+  queueLength: number;
+};
+
+export interface validatorQueueEstimate {
+  activationExitChurnGwei: bigint;
+  consolidationChurnGwei: bigint;
+  activationEpochs: number;
+  exitEpochs: number;
+};
+
+export function get_balance_churn_limit(total_active_balance: bigint): bigint {
+  const churn = MIN_PER_EPOCH_CHURN_LIMIT_ELECTRA > total_active_balance / CHURN_LIMIT_QUOTIENT ?
+    MIN_PER_EPOCH_CHURN_LIMIT_ELECTRA : total_active_balance / CHURN_LIMIT_QUOTIENT;
+  return churn - churn % EFFECTIVE_BALANCE_INCREMENT;
+}
+
+export function get_activation_exit_churn_limit(total_active_balance: bigint): bigint {
+  const churn = get_balance_churn_limit(total_active_balance);
+  return churn < MAX_PER_EPOCH_ACTIVATION_EXIT_CHURN_LIMIT ? churn : MAX_PER_EPOCH_ACTIVATION_EXIT_CHURN_LIMIT;
+}
+
+export function get_consolidation_churn_limit(total_active_balance: bigint): bigint {
+  return get_balance_churn_limit(total_active_balance) - get_activation_exit_churn_limit(total_active_balance);
+}
+
+// Whole ETH is precise enough for queue sizes and churn limits
+export const formatGweiAsEth = function(gwei: bigint) {
+  return (gwei / GWEI_PER_ETH).toLocaleString('en-US');
+};
+
+// Deposits and exits each consume up to the activation exit churn every epoch
+export const estimateElectraQueue = function(balances: validatorQueueBalances): validatorQueueEstimate {
+  const activationExitChurnGwei = get_activation_exit_churn_limit(balances.totalActiveGwei);
+  return {
+    activationExitChurnGwei: activationExitChurnGwei,
+    consolidationChurnGwei: get_consolidation_churn_limit(balances.totalActiveGwei),
+    activationEpochs: Number(balances.enteringGwei) / Number(activationExitChurnGwei),
+    exitEpochs: Number(balances.exitingGwei) / Number(activationExitChurnGwei),
+  };
+};
+
+// The queue only changes at epoch boundaries. Pending lookups are cached too
+// so concurrent commands share a single query.
+export interface validatorQueueCacheEntry {
+  epoch: number;
+  queue: Promise<validatorQueue>;
+};
+
+export type validatorQueueCache = Map<string, validatorQueueCacheEntry>;
+
+export const currentEpoch = function(genesisTime: number, now: number = Date.now()) {
+  return Math.floor((Math.floor(now / 1000) - genesisTime) / (SECONDS_PER_SLOT * SLOTS_PER_EPOCH));
+};
+
+// Resolves with null when the beacon node does not know this endpoint, which
+// happens with clients that do not implement the newer Electra endpoints yet.
+const fetchOptionalStateList = async function<T>(beaconNodeApiEndpoint: string, path: string) {
+  const response = await axios.get(beaconNodeApiEndpoint.concat(path),
+    { headers: {'accept': 'application/json'}, validateStatus: (status) => status === 200 || status === 400 || status === 404 });
+  if (response.status !== 200) {
+    return null;
+  }
+  return (response.data as { data: Array<T> }).data;
+};
+
+const sumGwei = function(amounts: Array<string>) {
+  return amounts.reduce((total, amount) => total + BigInt(amount), BigInt(0));
+};
+
+export const fetchPendingDeposits = async function(beaconNodeApiEndpoint: string): Promise<Array<pendingDeposit>> {
+  const pendingDeposits = await fetchOptionalStateList<{ pubkey: string, amount: string }>(beaconNodeApiEndpoint, '/eth/v1/beacon/states/head/pending_deposits');
+  if (pendingDeposits === null) {
+    throw new Error('The beacon node does not support the pending deposits API.');
+  }
+  return pendingDeposits.map((deposit) => ({ pubkey: deposit.pubkey, amount: BigInt(deposit.amount) }));
+};
+
+export const fetchPendingQueuedValidators = async function(beaconNodeApiEndpoint: string): Promise<Array<pendingQueuedValidator>> {
+  interface validatorsResponse {
+    data: Array<{
+      index: string,
+      validator: { activation_eligibility_epoch: string }
+    }>
+  };
+
+  const response = await axios.get(beaconNodeApiEndpoint.concat('/eth/v1/beacon/states/head/validators?status=pending_queued'),
+    { headers: {'accept': 'application/json'} });
+  return (response.data as validatorsResponse).data.map((validator) => ({
+    index: parseInt(validator.index),
+    activationEligibilityEpoch: parseInt(validator.validator.activation_eligibility_epoch),
+  }));
+};
+
+// Pending deposits are processed in order. A validator can have more than one
+// deposit so we look for the first one.
+export const findPendingDepositPosition = function(deposits: Array<pendingDeposit>, pubkey: string): pendingDepositPosition | null {
+  let gweiAhead = BigInt(0);
+  for (let index = 0; index < deposits.length; index++) {
+    const deposit = deposits[index];
+    gweiAhead += deposit.amount;
+    if (deposit.pubkey.toLowerCase() === pubkey.toLowerCase()) {
+      return { position: index + 1, queueLength: deposits.length, amount: deposit.amount, gweiAhead: gweiAhead };
+    }
+  }
+  return null;
+};
+
+// Before Electra the activation queue is sorted by eligibility epoch and then
+// by validator index.
+export const findActivationQueuePosition = function(validators: Array<pendingQueuedValidator>, validatorIndex: number): activationQueuePosition | null {
+  const queue = [...validators].sort((a, b) => a.activationEligibilityEpoch - b.activationEligibilityEpoch || a.index - b.index);
+  const position = queue.findIndex((validator) => validator.index === validatorIndex);
+  if (position === -1) {
+    return null;
+  }
+  return { position: position + 1, queueLength: queue.length };
+};
+
+// The total active balance is the sum of the effective balances of the active
+// validators at head, the same value the churn limits are computed from.
+const fetchElectraQueueBalances = async function(beaconNodeApiEndpoint: string, activeValidators: activeValidators, exitingValidators: Array<{ validator: { effective_balance: string } }>): Promise<validatorQueueBalances> {
+  const pendingDeposits = await fetchPendingDeposits(beaconNodeApiEndpoint);
+  const pendingPartialWithdrawals = await fetchOptionalStateList<{ amount: string }>(beaconNodeApiEndpoint, '/eth/v1/beacon/states/head/pending_partial_withdrawals');
+  const pendingConsolidations = await fetchOptionalStateList<{ source_index: string }>(beaconNodeApiEndpoint, '/eth/v1/beacon/states/head/pending_consolidations');
+
+  return {
+    totalActiveGwei: sumEffectiveBalances(activeValidators),
+    pendingDeposits: pendingDeposits.length,
+    enteringGwei: pendingDeposits.reduce((total, deposit) => total + deposit.amount, BigInt(0)),
+    exitingGwei: sumGwei(exitingValidators.map((validator) => validator.validator.effective_balance)) +
+      sumGwei((pendingPartialWithdrawals ?? []).map((withdrawal) => withdrawal.amount)),
+    pendingPartialWithdrawals: pendingPartialWithdrawals !== null ? pendingPartialWithdrawals.length : null,
+    pendingConsolidations: pendingConsolidations !== null ? pendingConsolidations.length : null,
+    approximate: false,
+  };
+};
+
+export const fetchBeaconNodeQueue = async function(beaconNodeApiEndpoint: string, epoch: number, electra: boolean): Promise<validatorQueue> {
+  interface validatorsResponse {
+    data: Array<{
+      status: string,
+      validator: { effective_balance: string }
+    }>
+  };
+
+  interface committeesResponse {
+    data: Array<{ validators: Array<string> }>
+  };
+
+  const validatorsResponse = await axios.get(beaconNodeApiEndpoint.concat('/eth/v1/beacon/states/head/validators?status=pending_queued,active_exiting'),
+    { headers: {'accept': 'application/json'} });
+  const validators = (validatorsResponse.data as validatorsResponse).data;
+
+  const exitingValidators = validators.filter((validator) => validator.status === 'active_exiting');
+
+  // After Electra the churn needs the balances of all the active validators so
+  // we count them from there. Before, every active validator is in exactly one
+  // committee during an epoch, which is much lighter than listing them.
+  let activeValidatorCount = 0;
+  let balances: validatorQueueBalances | null = null;
+  if (electra) {
+    const active = await fetchActiveValidators(beaconNodeApiEndpoint, 'head');
+    activeValidatorCount = active.indices.length;
+    balances = await fetchElectraQueueBalances(beaconNodeApiEndpoint, active, exitingValidators);
+  } else {
+    const committeesResponse = await axios.get(beaconNodeApiEndpoint.concat('/eth/v1/beacon/states/head/committees'),
+      { headers: {'accept': 'application/json'} });
+    const committees = (committeesResponse.data as committeesResponse).data;
+    activeValidatorCount = committees.reduce((total, committee) => total + committee.validators.length, 0);
+  }
+
+  // Validators are only created once their deposit leaves the pending deposits
+  // queue after Electra. pending_queued validators are waiting for finality.
+  return {
+    epoch: epoch,
+    entering: balances !== null ? balances.pendingDeposits : validators.filter((validator) => validator.status === 'pending_queued').length,
+    exiting: exitingValidators.length,
+    activeValidators: activeValidatorCount,
+    balances: balances,
+    source: 'beacon node',
+  };
+};
+
+export const fetchBeaconchainQueue = async function(apiQueueUrl: string, epoch: number, electra: boolean): Promise<validatorQueue> {
+  const response = await axios.get(apiQueueUrl);
+  if (response.status !== 200) {
+    throw new Error(`Unexpected status code from querying beaconcha.in API for queue details. Status code ${response.status}.`);
+  }
+
+  interface queueResponse {
+    status: string,
+    data: {
+      beaconchain_entering: number,
+      beaconchain_exiting: number,
+      validatorscount?: number,
+    }
+  };
+
+  const queryResponse = response.data as queueResponse;
+  if (queryResponse.status !== 'OK') {
+    throw new Error(`Unexpected body status from querying beaconcha.in API for queue details. Body status ${queryResponse.status}.`);
+  }
+
+  // beaconcha.in does not give us the pending deposits, partial withdrawals
+  // or the total active balance so they are approximated from the counts.
+  const data = queryResponse.data;
+  const balances: validatorQueueBalances | null = electra ? {
+    totalActiveGwei: BigInt(data.validatorscount ?? 0) * ASSUMED_VALIDATOR_BALANCE,
+    pendingDeposits: data.beaconchain_entering,
+    enteringGwei: BigInt(data.beaconchain_entering) * ASSUMED_VALIDATOR_BALANCE,
+    exitingGwei: BigInt(data.beaconchain_exiting) * ASSUMED_VALIDATOR_BALANCE,
+    pendingPartialWithdrawals: null,
+    pendingConsolidations: null,
+    approximate: true,
+  } : null;
+
+  return {
+    epoch: epoch,
+    entering: data.beaconchain_entering,
+    exiting: data.beaconchain_exiting,
+    activeValidators: data.validatorscount ?? null,
+    balances: balances,
+    source: 'beaconcha.in',
+  };
+};
+
+// Get the queue for this epoch from the cache or with fetchQueue
+export const getCachedValidatorQueue = function(cache: validatorQueueCache, key: string, epoch: number, fetchQueue: () => Promise<validatorQueue>) {
+  const cached = cache.get(key);
+  if (cached !== undefined && cached.epoch === epoch) {
+    return cached.queue;
+  }
+
+  const queue = fetchQueue();
+  cache.set(key, { epoch: epoch, queue: queue });
+  queue.catch(() => {
+    if (cache.get(key)?.queue === queue) {
+      cache.delete(key);
+    }
+  });
+  return queue;
+};
@@ -0,0 +1,221 @@
+import { Database, RunResult } from 'sqlite3';
+import { DateTime } from 'luxon';
+import axios from 'axios';
+
+export const maxValidatorWatchesPerUser = 10;
+
+// Beacon node APIs take a limited number of ids in a single query
+const validatorQueryChunkSize = 50;
+
+export interface validatorWatch {
+  userId: string;
+  network: string;
+  validatorIndex: number;
+  pubkey: string;
+  lastStatus: string | null;
+  // Whether the validator attested in the last checked epoch, 1 or 0, so we
+  // only notify when it goes offline or comes back.
+  lastLive: number | null;
+  createdAt: number;
+};
+
+export interface validatorStatus {
+  index: number;
+  status: string;
+  slashed: boolean;
+};
+
+export interface proposerDuty {
+  validatorIndex: number;
+  slot: number;
+};
+
+export const initValidatorWatchTable = function(db: Database) {
+  return new Promise<void>(async (resolve, reject) => {
+    db.serialize(() => {
+      db.run(`CREATE TABLE IF NOT EXISTS validator_watch (userId TEXT NOT NULL, network TEXT NOT NULL, validatorIndex INTEGER NOT NULL, pubkey TEXT NOT NULL, lastStatus TEXT, createdAt INTEGER NOT NULL, PRIMARY KEY (userId, network, validatorIndex));`, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+      });
+
+      db.run(`CREATE INDEX IF NOT EXISTS validator_watch_network on validator_watch ( network );`, (error: Error | null) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+      });
+
+      let hasLastLive = false;
+      db.each(`PRAGMA table_info(validator_watch);`, (error: Error | null, row: any ) => {
+        if (row.name === 'lastLive') {
+          hasLastLive = true;
+        }
+      }, (error: Error | null, count: number) => {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+
+        if (!hasLastLive) {
+          db.run(`ALTER TABLE validator_watch ADD COLUMN lastLive INTEGER;`, (error: Error | null) => {
+            if (error !== null) {
+              reject(error);
+              return;
+            }
+            resolve();
+          });
+        } else {
+          resolve();
+        }
+      });
+    });
+  });
+};
+
+// Resolves with false when the user was already watching this validator
+export const addValidatorWatch = function(db: Database, userId: string, network: string, validatorIndex: number, pubkey: string, status: string) {
+  return new Promise<boolean>(async (resolve, reject) => {
+    const createdAt = Math.floor(DateTime.utc().toMillis() / 1000);
+    db.run(`INSERT OR IGNORE INTO validator_watch(userId, network, validatorIndex, pubkey, lastStatus, createdAt) VALUES(?, ?, ?, ?, ?, ?);`,
+      userId, network, validatorIndex, pubkey, status, createdAt,
+      function (this: RunResult, error: Error | null) {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+        resolve(this.changes > 0);
+      });
+  });
+};
+
+// Resolves with false when the user was not watching this validator
+export const removeValidatorWatch = function(db: Database, userId: string, network: string, validatorIndex: number) {
+  return new Promise<boolean>(async (resolve, reject) => {
+    db.run(`DELETE FROM validator_watch WHERE userId = ? AND network = ? AND validatorIndex = ?;`,
+      userId, network, validatorIndex,
+      function (this: RunResult, error: Error | null) {
+        if (error !== null) {
+          reject(error);
+          return;
+        }
+        resolve(this.changes > 0);
+      });
+  });
+};
+
+export const getUserValidatorWatches = function(db: Database, userId: string) {
+  return new Promise<Array<validatorWatch>>(async (resolve, reject) => {
+    db.all(`SELECT * from validator_watch WHERE userId = ? ORDER BY network, validatorIndex;`, userId, (error: Error | null, rows: any[] ) => {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      resolve(rows as Array<validatorWatch>);
+    });
+  });
+};
+
+export const getNetworkValidatorWatches = function(db: Database, network: string) {
+  return new Promise<Array<validatorWatch>>(async (resolve, reject) => {
+    db.all(`SELECT * from validator_watch WHERE network = ?;`, network, (error: Error | null, rows: any[] ) => {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      resolve(rows as Array<validatorWatch>);
+    });
+  });
+};
+
+export const updateValidatorWatchStatus = function(db: Database, network: string, validatorIndex: number, status: string) {
+  return new Promise<void>(async (resolve, reject) => {
+    db.run(`UPDATE validator_watch SET lastStatus = ? WHERE network = ? AND validatorIndex = ?;`, status, network, validatorIndex, (error: Error | null) => {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      resolve();
+    });
+  });
+};
+
+export const updateValidatorWatchLiveness = function(db: Database, network: string, validatorIndex: number, live: boolean) {
+  return new Promise<void>(async (resolve, reject) => {
+    db.run(`UPDATE validator_watch SET lastLive = ? WHERE network = ? AND validatorIndex = ?;`, live ? 1 : 0, network, validatorIndex, (error: Error | null) => {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      resolve();
+    });
+  });
+};
+
+const chunk = function<T>(values: Array<T>, size: number) {
+  const chunks: Array<Array<T>> = [];
+  for (let index = 0; index < values.length; index += size) {
+    chunks.push(values.slice(index, index + size));
+  }
+  return chunks;
+};
+
+// Whether the validators were seen attesting or proposing during the epoch
+export const fetchValidatorLiveness = async function(beaconNodeApiEndpoint: string, epoch: number, validatorIndices: Array<number>) {
+  interface livenessResponse {
+    data: Array<{ index: string, is_live: boolean }>
+  };
+
+  const liveness = new Map<number, boolean>();
+  for (const indices of chunk(validatorIndices, validatorQueryChunkSize)) {
+    const response = await axios.post(beaconNodeApiEndpoint.concat(`/eth/v1/validator/liveness/${epoch}`),
+      indices.map((index) => index.toString()),
+      { headers: {'accept': 'application/json'} });
+    (response.data as livenessResponse).data.forEach((entry) => {
+      liveness.set(parseInt(entry.index), entry.is_live);
+    });
+  }
+  return liveness;
+};
+
+export const fetchValidatorStatuses = async function(beaconNodeApiEndpoint: string, stateId: string, validatorIndices: Array<number>) {
+  interface validatorsResponse {
+    data: Array<{
+      index: string,
+      status: string,
+      validator: { slashed: boolean }
+    }>
+  };
+
+  const statuses = new Map<number, validatorStatus>();
+  for (const indices of chunk(validatorIndices, validatorQueryChunkSize)) {
+    const response = await axios.get(beaconNodeApiEndpoint.concat(`/eth/v1/beacon/states/${stateId}/validators?id=${indices.join(',')}`),
+      { headers: {'accept': 'application/json'} });
+    (response.data as validatorsResponse).data.forEach((entry) => {
+      const index = parseInt(entry.index);
+      statuses.set(index, { index: index, status: entry.status, slashed: entry.validator.slashed });
+    });
+  }
+  return statuses;
+};
+
+export const fetchProposerDuties = async function(beaconNodeApiEndpoint: string, epoch: number): Promise<Array<proposerDuty>> {
+  interface proposerDutiesResponse {
+    data: Array<{ validator_index: string, slot: string }>
+  };
+
+  const response = await axios.get(beaconNodeApiEndpoint.concat(`/eth/v1/validator/duties/proposer/${epoch}`),
+    { headers: {'accept': 'application/json'} });
+  return (response.data as proposerDutiesResponse).data.map((duty) => ({
+    validatorIndex: parseInt(duty.validator_index),
+    slot: parseInt(duty.slot),
+  }));
+};
+
+// A missed slot has no block header
+export const fetchSlotHasBlock = async function(beaconNodeApiEndpoint: string, slot: number) {
+  const response = await axios.get(beaconNodeApiEndpoint.concat(`/eth/v1/beacon/headers/${slot}`),
+    { headers: {'accept': 'application/json'}, validateStatus: (status) => status === 200 || status === 404 });
+  return response.status === 200;
+};
@@ -0,0 +1,40 @@
+import { Database } from 'sqlite3';
+
+// A table linking wallet addresses to Discord users. The time column is
+// optional since some older tables never recorded when the link was made.
+export interface walletLinkSource {
+  name: string;
+  tableName: string;
+  addressColumn: string;
+  timeColumn?: string;
+};
+
+export interface walletLink {
+  source: string;
+  userId: string;
+  linkedAt: number | null;
+};
+
+export const findWalletLinks = function(db: Database, sources: Array<walletLinkSource>, walletAddress: string) {
+  return new Promise<Array<walletLink>>(async (resolve, reject) => {
+    if (sources.length === 0) {
+      resolve([]);
+      return;
+    }
+
+    const queries = sources.map((source) => {
+      const timeColumn = source.timeColumn !== undefined ? `MAX(${source.timeColumn})` : 'NULL';
+      return `SELECT ? AS source, userId, ${timeColumn} AS linkedAt from ${source.tableName} ` +
+        `WHERE lower(${source.addressColumn}) = lower(?) GROUP BY userId`;
+    });
+    const params = sources.flatMap((source) => [source.name, walletAddress]);
+
+    db.all(`${queries.join(' UNION ALL ')};`, ...params, (error: Error | null, rows: any[] ) => {
+      if (error !== null) {
+        reject(error);
+        return;
+      }
+      resolve(rows as Array<walletLink>);
+    });
+  });
+};